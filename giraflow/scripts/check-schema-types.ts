@@ -0,0 +1,248 @@
+/**
+ * Checks that the model interfaces in src/shared/types.ts match giraflow.schema.json.
+ * Compares property names, optionality and (for plain JSON types) property types.
+ * Exits with code 1 and lists every mismatch if the two have drifted apart.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const rootDir = path.resolve(__dirname, '..');
+const repoRoot = path.resolve(rootDir, '..');
+const schemaPath = path.join(repoRoot, 'giraflow.schema.json');
+const typesPath = path.join(rootDir, 'src', 'shared', 'types.ts');
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  oneOf?: SchemaNode[];
+  anyOf?: SchemaNode[];
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaNode;
+}
+
+interface DeclaredProperty {
+  type: string;
+  optional: boolean;
+}
+
+// Schema definition → TypeScript interface ('#' is the schema root)
+const CHECKED_TYPES: Record<string, string> = {
+  '#': 'GiraflowModel',
+  Event: 'Event',
+  StateView: 'StateView',
+  Actor: 'Actor',
+  Command: 'Command',
+  Attachment: 'Attachment',
+  EventReference: 'EventReference',
+  CommandScenarioStep: 'CommandScenarioStep',
+  CommandScenario: 'CommandScenario',
+  StateViewScenario: 'StateViewScenario',
+  CommandSpecification: 'CommandSpecification',
+  StateSpecification: 'StateSpecification',
+};
+
+// Placeholder for inline object schemas, matches any named type
+const ANY_NAMED_TYPE = '*';
+
+/**
+ * Split a type expression at top-level occurrences of a separator.
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if ('(<{['.includes(char)) depth++;
+    if (')>}]'.includes(char)) depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Whether the whole expression is enclosed in a single pair of parentheses.
+ */
+function isWrapped(text: string): boolean {
+  if (!text.startsWith('(') || !text.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') depth--;
+    if (depth === 0 && i < text.length - 1) return false;
+  }
+  return true;
+}
+
+/**
+ * Normalize a type expression so that equivalent unions compare equal.
+ */
+function normalizeType(text: string): string {
+  let compact = text.replace(/\s+/g, '').replace(/"/g, "'");
+  while (isWrapped(compact)) compact = compact.slice(1, -1);
+
+  const members = splitTopLevel(compact, '|').map((member) => {
+    const array = member.match(/^\((.*)\)\[\]$/);
+    return array ? `(${normalizeType(array[1])})[]` : member;
+  });
+  return [...new Set(members)].sort().join('|');
+}
+
+function unionOf(members: string[]): string {
+  return [...new Set(members)].join(' | ');
+}
+
+function schemaToType(node: SchemaNode): string {
+  if (node.$ref) {
+    const name = node.$ref.replace('#/$defs/', '');
+    return CHECKED_TYPES[name] ?? name;
+  }
+  if (node.const !== undefined) return `'${String(node.const)}'`;
+  if (node.enum) return unionOf(node.enum.map((v) => `'${String(v)}'`));
+  const alternatives = node.oneOf ?? node.anyOf;
+  if (alternatives) return unionOf(alternatives.map(schemaToType));
+
+  switch (node.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const item = node.items ? schemaToType(node.items) : 'unknown';
+      return item.includes('|') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      return node.properties ? ANY_NAMED_TYPE : 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Collect the expected properties of a definition. oneOf alternatives of
+ * objects are merged: a property is required only if every alternative
+ * requires it.
+ */
+function expectedProperties(node: SchemaNode): Map<string, DeclaredProperty> {
+  const variants = node.oneOf && node.oneOf.every((v) => v.properties) ? node.oneOf : [node];
+  const result = new Map<string, DeclaredProperty>();
+
+  for (const variant of variants) {
+    for (const [name, property] of Object.entries(variant.properties ?? {})) {
+      const type = schemaToType(property);
+      const existing = result.get(name);
+      result.set(name, {
+        type: existing ? unionOf([existing.type, type]) : type,
+        optional: false,
+      });
+    }
+  }
+  for (const [name, property] of result) {
+    property.optional = !variants.every((v) => v.required?.includes(name));
+  }
+  return result;
+}
+
+function readDeclarations(): {
+  interfaces: Map<string, Map<string, DeclaredProperty>>;
+  aliases: Map<string, string>;
+} {
+  const source = ts.createSourceFile(typesPath, fs.readFileSync(typesPath, 'utf-8'), ts.ScriptTarget.Latest, true);
+  const interfaces = new Map<string, Map<string, DeclaredProperty>>();
+  const aliases = new Map<string, string>();
+
+  for (const statement of source.statements) {
+    if (ts.isInterfaceDeclaration(statement)) {
+      const properties = new Map<string, DeclaredProperty>();
+      for (const member of statement.members) {
+        if (!ts.isPropertySignature(member) || !member.type) continue;
+        properties.set(member.name.getText(source).replace(/['"]/g, ''), {
+          type: member.type.getText(source),
+          optional: member.questionToken !== undefined,
+        });
+      }
+      interfaces.set(statement.name.text, properties);
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      aliases.set(statement.name.text, statement.type.getText(source));
+    }
+  }
+  return { interfaces, aliases };
+}
+
+function expandAliases(type: string, aliases: Map<string, string>): string {
+  return type.replace(/\b[A-Z]\w*\b/g, (name) => {
+    const alias = aliases.get(name);
+    return alias ? `(${expandAliases(alias, aliases)})` : name;
+  });
+}
+
+function typesMatch(expected: string, declared: string): boolean {
+  const pattern = normalizeType(expected)
+    .replace(/[.*+?^${}()|[\]\\]/g, (c) => (c === ANY_NAMED_TYPE ? '[A-Za-z_]\\w*' : `\\${c}`));
+  return new RegExp(`^${pattern}$`).test(normalizeType(declared));
+}
+
+const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as SchemaNode & { $defs: Record<string, SchemaNode> };
+const { interfaces, aliases } = readDeclarations();
+const problems: string[] = [];
+
+for (const [defName, typeName] of Object.entries(CHECKED_TYPES)) {
+  const definition = defName === '#' ? schema : schema.$defs[defName];
+  const declared = interfaces.get(typeName);
+  if (!definition) {
+    problems.push(`${typeName}: no "${defName}" definition in the schema`);
+    continue;
+  }
+  if (!declared) {
+    problems.push(`${typeName}: interface not found in types.ts`);
+    continue;
+  }
+
+  const expected = expectedProperties(definition);
+  for (const [name, property] of expected) {
+    const actual = declared.get(name);
+    if (!actual) {
+      problems.push(`${typeName}.${name}: missing (schema type ${property.type})`);
+      continue;
+    }
+    if (actual.optional !== property.optional) {
+      problems.push(`${typeName}.${name}: should be ${property.optional ? 'optional' : 'required'}`);
+    }
+    if (!typesMatch(property.type, expandAliases(actual.type, aliases))) {
+      problems.push(`${typeName}.${name}: declared as ${actual.type}, schema allows ${property.type}`);
+    }
+  }
+  for (const name of declared.keys()) {
+    if (!expected.has(name)) {
+      problems.push(`${typeName}.${name}: not defined in the schema`);
+    }
+  }
+}
+
+if (problems.length > 0) {
+  console.error(`types.ts is out of sync with giraflow.schema.json:\n`);
+  for (const problem of problems) {
+    console.error(`  ✗ ${problem}`);
+  }
+  console.error('');
+  process.exit(1);
+}
+
+console.log(`✓ types.ts matches giraflow.schema.json (${Object.keys(CHECKED_TYPES).length} types checked)`);
@@ -0,0 +1,74 @@
+/**
+ * Deep links into the slice view
+ *
+ * URL hashes that address a slice, one of its scenarios or one step of a
+ * scenario:
+ *   #slice/command/PlaceOrder
+ *   #slice/command/PlaceOrder/scenario/2
+ *   #slice/state/OrderList/scenario/1/step/3
+ *
+ * Scenarios and steps are numbered from 1, in the order the slice view shows
+ * them. Older links by name (#slice/PlaceOrder/scenario/Happy%20path) still
+ * resolve.
+ */
+
+export type SliceType = 'command' | 'state';
+
+export interface SliceTarget {
+  /** Missing in older links, which only name the slice */
+  type?: SliceType;
+  name: string;
+  /** Zero-based */
+  scenarioIndex?: number;
+  /** Scenario name of an older link */
+  scenarioName?: string;
+  /** Zero-based step of the scenario */
+  stepIndex?: number;
+}
+
+/**
+ * Hash (without "#") of a slice, a scenario or a step; indexes are zero-based
+ */
+export function sliceLink(type: SliceType, name: string, scenarioIndex?: number, stepIndex?: number): string {
+  let hash = `slice/${type}/${encodeURIComponent(name)}`;
+  if (scenarioIndex !== undefined) hash += `/scenario/${scenarioIndex + 1}`;
+  if (scenarioIndex !== undefined && stepIndex !== undefined) hash += `/step/${stepIndex + 1}`;
+  return hash;
+}
+
+function parseNumber(part: string | undefined): number | undefined {
+  const n = Number(part);
+  return Number.isInteger(n) && n >= 1 ? n - 1 : undefined;
+}
+
+/**
+ * What a "slice/..." hash (without "#") points at, or null for other hashes
+ * and malformed links. A view filter after "?" is ignored.
+ */
+export function parseSliceLink(hash: string): SliceTarget | null {
+  const parts = hash.split('?')[0].split('/');
+  if (parts[0] !== 'slice' || !parts[1]) return null;
+
+  try {
+    if ((parts[1] === 'command' || parts[1] === 'state') && parts[2]) {
+      const target: SliceTarget = { type: parts[1], name: decodeURIComponent(parts[2]) };
+      if (parts[3] === 'scenario') target.scenarioIndex = parseNumber(parts[4]);
+      if (target.scenarioIndex !== undefined && parts[5] === 'step') target.stepIndex = parseNumber(parts[6]);
+      return target;
+    }
+
+    const target: SliceTarget = { name: decodeURIComponent(parts[1]) };
+    if (parts[2] === 'scenario' && parts[3]) target.scenarioName = decodeURIComponent(parts[3]);
+    return target;
+  } catch {
+    // A broken escape such as "%E0" in a pasted link
+    return null;
+  }
+}
+
+/**
+ * Full URL of a hash on the current page, for pasting elsewhere
+ */
+export function absoluteLink(hash: string): string {
+  return `${window.location.href.split('#')[0]}#${hash}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Semantic model diagnostics - re-exports from shared module
+ *
+ * The linter rules live in shared/model-linter.ts so the server (live reload)
+ * and the CLI (`giraflow lint`) report exactly the same problems.
+ */
+
+export {
+  type LintSeverity,
+  type LintDiagnostic,
+  type DiagnosticsMessage,
+  lintModel,
+  countDiagnostics,
+  parseProducedBy,
+} from '../../shared/model-linter.js';
+
+export { locateJsonPointer, indexJsonPointers, type JsonLocation } from '../../shared/json-pointer.js';
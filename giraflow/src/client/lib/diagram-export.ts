@@ -0,0 +1,13 @@
+/**
+ * Diagram export - re-exports from shared module
+ *
+ * The Header copies the timeline as Mermaid or PlantUML, the same output as
+ * `giraflow export diagram`.
+ */
+
+export {
+  type DiagramFormat,
+  DIAGRAM_FORMATS,
+  DIAGRAM_FORMAT_LABELS,
+  renderDiagram,
+} from '../../shared/diagram-export.js';
@@ -0,0 +1,22 @@
+/**
+ * Model diff - re-exports from shared module
+ *
+ * Compare mode overlays a second version of the model (another file or a git
+ * revision) on the views, using the same diff as `giraflow diff`.
+ */
+
+export {
+  type ElementType,
+  type ElementRef,
+  type ExampleChange,
+  type ElementChange,
+  type SliceChange,
+  type ModelDiff,
+  type ElementStatus,
+  type RemovedElement,
+  type TimelineComparison,
+  diffModels,
+  isEmptyDiff,
+  compareTimelines,
+  elementStatus,
+} from '../../shared/model-diff.js';
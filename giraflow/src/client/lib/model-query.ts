@@ -0,0 +1,16 @@
+/**
+ * Model query - re-exports from shared module
+ *
+ * The command palette searches with the same query syntax and ranking as
+ * `giraflow query`.
+ */
+
+export {
+  type QueryField,
+  type QueryResult,
+  type ParsedQuery,
+  QUERY_FILTERS,
+  parseQuery,
+  findQueryProblem,
+  queryModel,
+} from '../../shared/model-query.js';
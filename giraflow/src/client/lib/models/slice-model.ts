@@ -6,6 +6,7 @@
  */
 
 import type { Actor } from '../types';
+import { getReadViews } from '../types';
 
 // Re-export types and builder from shared
 export {
@@ -48,10 +49,10 @@ export function getSliceKey(slice: Slice): string {
 }
 
 /**
- * Get actors that read a specific state view.
+ * Get actors that read a specific state view (alone or among other views).
  */
 export function getReadingActors(viewModel: SliceViewModel, stateName: string): Actor[] {
-  return viewModel.actors.filter((a) => a.readsView === stateName);
+  return viewModel.actors.filter((a) => getReadViews(a).includes(stateName));
 }
 
 /**
@@ -4,7 +4,8 @@
  * Deduplicated summary of timeline elements grouped by name with occurrence counts.
  */
 
-import type { GiraflowModel, Event, StateView, Command, Actor } from '../types';
+import type { GiraflowModel, Event, StateView, Command, Actor, SliceStatus } from '../types';
+import { getReadViews } from '../types';
 
 export interface DeduplicatedItem {
   name: string;
@@ -14,13 +15,22 @@ export interface DeduplicatedItem {
 
 export interface DeduplicatedStateItem extends DeduplicatedItem {
   sourcedFrom: string[];
+  status?: SliceStatus;
+}
+
+export interface DeduplicatedCommandItem extends DeduplicatedItem {
+  status?: SliceStatus;
+}
+
+export interface DeduplicatedActorItem extends DeduplicatedItem {
+  readsViews: string[];
 }
 
 export interface TableViewModel {
   events: DeduplicatedItem[];
   states: DeduplicatedStateItem[];
-  commands: DeduplicatedItem[];
-  actors: DeduplicatedItem[];
+  commands: DeduplicatedCommandItem[];
+  actors: DeduplicatedActorItem[];
   totalEvents: number;
   totalStates: number;
   totalCommands: number;
@@ -51,35 +61,56 @@ function deduplicateWithCounts<T extends { name: string; tick: number }>(
 }
 
 /**
- * Deduplicate states with sourcedFrom information.
+ * Deduplicate states with sourcedFrom and status information.
  */
-function deduplicateStates(
-  items: { name: string; tick: number; sourcedFrom: string[] }[]
-): DeduplicatedStateItem[] {
-  const map = new Map<string, { ticks: number[]; sourcedFrom: string[] }>();
+function deduplicateStates(items: StateView[]): DeduplicatedStateItem[] {
+  const map = new Map<string, { ticks: number[]; sourcedFrom: string[]; status?: SliceStatus }>();
 
   for (const item of items) {
     const existing = map.get(item.name);
     if (existing) {
       existing.ticks.push(item.tick);
+      existing.status ??= item.status;
     } else {
       map.set(item.name, {
         ticks: [item.tick],
         sourcedFrom: item.sourcedFrom,
+        status: item.status,
       });
     }
   }
 
   return [...map.entries()]
-    .map(([name, { ticks, sourcedFrom }]) => ({
+    .map(([name, { ticks, sourcedFrom, status }]) => ({
       name,
       ticks: ticks.sort((a, b) => a - b),
       count: ticks.length,
       sourcedFrom,
+      ...(status !== undefined ? { status } : {}),
     }))
     .sort((a, b) => a.name.localeCompare(b.name));
 }
 
+/**
+ * Deduplicate commands, keeping the first status found for each name.
+ */
+function deduplicateCommands(items: Command[]): DeduplicatedCommandItem[] {
+  return deduplicateWithCounts(items).map((item) => {
+    const status = items.find((c) => c.name === item.name && c.status !== undefined)?.status;
+    return status !== undefined ? { ...item, status } : item;
+  });
+}
+
+/**
+ * Deduplicate actors, merging the state views read across all occurrences.
+ */
+function deduplicateActors(items: Actor[]): DeduplicatedActorItem[] {
+  return deduplicateWithCounts(items).map((item) => ({
+    ...item,
+    readsViews: [...new Set(items.filter((a) => a.name === item.name).flatMap(getReadViews))],
+  }));
+}
+
 /**
  * Build the table view model from raw model data.
  * Deduplicates all element types and provides occurrence counts.
@@ -106,8 +137,8 @@ export function buildTableViewModel(model: GiraflowModel | null): TableViewModel
   return {
     events: deduplicateWithCounts(events),
     states: deduplicateStates(states),
-    commands: deduplicateWithCounts(commands),
-    actors: deduplicateWithCounts(actors),
+    commands: deduplicateCommands(commands),
+    actors: deduplicateActors(actors),
     totalEvents: events.length,
     totalStates: states.length,
     totalCommands: commands.length,
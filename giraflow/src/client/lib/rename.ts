@@ -0,0 +1,17 @@
+/**
+ * Rename - re-exports from shared module
+ *
+ * The rename action in the web UI updates the same references as
+ * `giraflow rename`.
+ */
+
+export {
+  type RenameType,
+  type RenameChange,
+  type WireframeRename,
+  type RenameResult,
+  findRenameProblem,
+  renameElement,
+  findWireframeRenames,
+  wireframePrefix,
+} from '../../shared/rename.js';
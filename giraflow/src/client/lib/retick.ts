@@ -0,0 +1,13 @@
+/**
+ * Retick - re-exports from shared module
+ *
+ * The timeline view inserts elements between two ticks and makes room by
+ * renumbering the ticks when needed, the same way as `giraflow retick`.
+ */
+
+export {
+  type NewTimelineElement,
+  type InsertResult,
+  DEFAULT_TICK_STEP,
+  insertElement,
+} from '../../shared/retick.js';
@@ -0,0 +1,8 @@
+/**
+ * Static site data - re-exports from shared module
+ *
+ * Read by main-static.ts, the entry point of sites built with `giraflow build-site`
+ * and reports written by `giraflow export report`.
+ */
+
+export { type SiteData, SITE_DATA_ELEMENT_ID } from '../../shared/site-data.js';
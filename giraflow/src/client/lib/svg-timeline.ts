@@ -0,0 +1,8 @@
+/**
+ * SVG timeline - re-exports from shared module
+ *
+ * The report view prints the timeline as one SVG per page, drawn like
+ * `giraflow export svg`.
+ */
+
+export { renderTimelineSvg, renderTimelineSvgPages } from '../../shared/svg-timeline.js';
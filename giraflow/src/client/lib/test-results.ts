@@ -0,0 +1,17 @@
+/**
+ * Scenario test results - re-exports from shared module
+ *
+ * Results are written by `giraflow test` (JSON or JUnit) into the model's asset
+ * folder and pushed by the server; the slice view overlays them on scenarios.
+ */
+
+export {
+  type ScenarioStatus,
+  type ValueDifference,
+  type StepResult,
+  type ScenarioResult,
+  type TestResultsFile,
+  type TestResultsMessage,
+  findScenarioResult,
+  countResults,
+} from '../../shared/scenario-results.js';
@@ -1,10 +1,24 @@
 /**
  * Client-side JSON validation for the editor
+ *
+ * Validates against the same giraflow.schema.json the CLI uses
+ * (`giraflow view --validate`), bundled at build time.
  */
 
+import Ajv from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import type { Diagnostic } from '@codemirror/lint';
+import schema from '../../../../giraflow.schema.json';
+import { refineSchemaErrors } from '../../shared/schema-errors.js';
+import { indexJsonPointers, locateJsonPointer } from '../../shared/json-pointer.js';
+
 export interface ValidationError {
   path: string;
   message: string;
+  /** 'syntax' errors block saving, 'schema' errors can be overridden */
+  kind: 'syntax' | 'schema';
+  /** Character offset for syntax errors, if the parser reports one */
+  offset?: number;
 }
 
 export interface ValidationResult {
@@ -12,82 +26,86 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+const ajv = new Ajv({ allErrors: true, verbose: true });
+addFormats(ajv);
+const validateSchema = ajv.compile(schema);
+
 /**
- * Validate JSON string - basic structural validation
- * Note: Full schema validation could be added with AJV if needed
+ * Validate JSON string - syntax check followed by full schema validation
  */
 export function validateJson(jsonString: string): ValidationResult {
-  const errors: ValidationError[] = [];
-
   if (!jsonString.trim()) {
-    return { valid: false, errors: [{ path: '', message: 'JSON is empty' }] };
+    return { valid: false, errors: [{ path: '', message: 'JSON is empty', kind: 'syntax' }] };
   }
 
   let parsed: unknown;
   try {
     parsed = JSON.parse(jsonString);
   } catch (e) {
-    const error = e instanceof Error ? e.message : 'Invalid JSON';
-    return { valid: false, errors: [{ path: '', message: error }] };
+    const message = e instanceof Error ? e.message : 'Invalid JSON';
+    const position = message.match(/at position (\d+)/);
+    return {
+      valid: false,
+      errors: [{
+        path: '',
+        message,
+        kind: 'syntax',
+        ...(position ? { offset: parseInt(position[1], 10) } : {}),
+      }],
+    };
   }
 
-  // Basic structural validation for Giraflow models
-  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-    errors.push({ path: '', message: 'Root must be an object' });
-    return { valid: false, errors };
+  if (validateSchema(parsed)) {
+    return { valid: true, errors: [] };
   }
 
-  const model = parsed as Record<string, unknown>;
+  const errors: ValidationError[] = refineSchemaErrors(validateSchema.errors ?? [], parsed, schema)
+    .map((err) => ({ path: err.pointer, message: err.message, kind: 'schema' as const }));
 
-  // Check required fields
-  if (typeof model.name !== 'string' || !model.name) {
-    errors.push({ path: '/name', message: 'name is required and must be a string' });
-  }
+  return { valid: false, errors };
+}
 
-  if (!Array.isArray(model.timeline)) {
-    errors.push({ path: '/timeline', message: 'timeline is required and must be an array' });
-  } else {
-    // Validate timeline elements
-    model.timeline.forEach((element, index) => {
-      if (typeof element !== 'object' || element === null) {
-        errors.push({ path: `/timeline/${index}`, message: 'must be an object' });
-        return;
-      }
-
-      const el = element as Record<string, unknown>;
-
-      if (!['event', 'state', 'command', 'actor'].includes(el.type as string)) {
-        errors.push({
-          path: `/timeline/${index}/type`,
-          message: `type must be one of: event, state, command, actor`
-        });
-      }
-
-      if (typeof el.name !== 'string' || !el.name) {
-        errors.push({ path: `/timeline/${index}/name`, message: 'name is required' });
-      }
-
-      if (typeof el.tick !== 'number') {
-        errors.push({ path: `/timeline/${index}/tick`, message: 'tick is required and must be a number' });
-      }
-
-      // Type-specific validation
-      if (el.type === 'state' && !Array.isArray(el.sourcedFrom)) {
-        errors.push({ path: `/timeline/${index}/sourcedFrom`, message: 'sourcedFrom is required for state' });
-      }
-
-      if (el.type === 'actor') {
-        if (typeof el.readsView !== 'string' && !Array.isArray(el.readsView)) {
-          errors.push({ path: `/timeline/${index}/readsView`, message: 'readsView is required for actor' });
-        }
-      }
+/**
+ * Check whether a validation result contains JSON syntax errors
+ */
+export function hasSyntaxErrors(result: ValidationResult): boolean {
+  return result.errors.some((e) => e.kind === 'syntax');
+}
+
+/**
+ * Convert validation errors into CodeMirror diagnostics (inline squiggles).
+ * Object and array values are only underlined on their first line.
+ */
+export function toEditorDiagnostics(jsonString: string, errors: ValidationError[]): Diagnostic[] {
+  const index = indexJsonPointers(jsonString);
+  const diagnostics: Diagnostic[] = [];
+
+  for (const error of errors) {
+    let from: number;
+    let to: number;
+
+    if (error.kind === 'syntax') {
+      if (error.offset === undefined) continue;
+      from = Math.min(error.offset, jsonString.length);
+      to = Math.min(from + 1, jsonString.length);
+    } else {
+      const location = locateJsonPointer(jsonString, error.path, index);
+      if (!location) continue;
+      from = location.offset;
+      const lineEnd = jsonString.indexOf('\n', from);
+      to = Math.min(from + location.length, lineEnd === -1 ? jsonString.length : lineEnd);
+    }
+
+    diagnostics.push({
+      from,
+      to,
+      severity: 'error',
+      message: error.path ? `${error.path}: ${error.message}` : error.message,
+      source: error.kind === 'schema' ? 'giraflow.schema.json' : 'JSON',
     });
   }
 
-  return {
-    valid: errors.length === 0,
-    errors
-  };
+  return diagnostics;
 }
 
 /**
@@ -0,0 +1,154 @@
+/**
+ * View filter
+ *
+ * Narrows the timeline, slice and table views to chosen event systems, actor
+ * roles, element types, slices or a tick range. Empty lists show everything.
+ *
+ * The filter is kept in the URL hash after a "?" so filtered views can be
+ * shared: #timeline?system=Payment&role=Admin&type=event&tick=100..300
+ * Events without a system and actors without a role are "system=" / "role=".
+ */
+
+import type { GiraflowModel, TimelineElement } from './types';
+import { isActor, isCommand, isEvent, isState, getReadViews } from './types';
+import type { Slice } from './models';
+import { parseProducedBy } from './diagnostics';
+
+export type ElementType = TimelineElement['type'];
+
+export const ELEMENT_TYPES: ElementType[] = ['event', 'state', 'command', 'actor'];
+
+export interface ViewFilter {
+  /** Event systems to show ('' for events without a system) */
+  systems: string[];
+  /** Actor roles to show ('' for actors without a role) */
+  roles: string[];
+  types: ElementType[];
+  /** Command and state view names; the timeline keeps the elements of these slices */
+  slices: string[];
+  fromTick: number | null;
+  toTick: number | null;
+}
+
+export const EMPTY_VIEW_FILTER: ViewFilter = {
+  systems: [],
+  roles: [],
+  types: [],
+  slices: [],
+  fromTick: null,
+  toTick: null,
+};
+
+export function isFilterActive(filter: ViewFilter): boolean {
+  return (
+    filter.systems.length > 0 ||
+    filter.roles.length > 0 ||
+    filter.types.length > 0 ||
+    filter.slices.length > 0 ||
+    filter.fromTick !== null ||
+    filter.toTick !== null
+  );
+}
+
+function parseTick(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Filter from the part of the hash after "?"
+ */
+export function parseViewFilter(query: string): ViewFilter {
+  const params = new URLSearchParams(query);
+  const [from, to] = (params.get('tick') ?? '').split('..');
+  return {
+    systems: params.getAll('system'),
+    roles: params.getAll('role'),
+    types: params.getAll('type').filter((t): t is ElementType => ELEMENT_TYPES.includes(t as ElementType)),
+    slices: params.getAll('slice'),
+    fromTick: parseTick(from),
+    toTick: parseTick(to),
+  };
+}
+
+/**
+ * The part of the hash after "?", empty if nothing is filtered
+ */
+export function formatViewFilter(filter: ViewFilter): string {
+  const params = new URLSearchParams();
+  filter.systems.forEach((system) => params.append('system', system));
+  filter.roles.forEach((role) => params.append('role', role));
+  filter.types.forEach((type) => params.append('type', type));
+  filter.slices.forEach((slice) => params.append('slice', slice));
+  if (filter.fromTick !== null || filter.toTick !== null) {
+    params.set('tick', `${filter.fromTick ?? ''}..${filter.toTick ?? ''}`);
+  }
+  return params.toString();
+}
+
+function inTickRange(tick: number, filter: ViewFilter): boolean {
+  return (filter.fromTick === null || tick >= filter.fromTick) && (filter.toTick === null || tick <= filter.toTick);
+}
+
+/**
+ * Whether an element belongs to one of the slices: the command or state view
+ * itself, the events a command produces or a state view is sourced from, and
+ * the actors sending the command or reading the state view
+ */
+function inSlices(el: TimelineElement, slices: Set<string>, sourcedEvents: Set<string>): boolean {
+  if (isCommand(el) || isState(el)) return slices.has(el.name);
+  if (isEvent(el)) {
+    const producedBy = el.producedBy ? parseProducedBy(el.producedBy)?.name : undefined;
+    return sourcedEvents.has(el.name) || (producedBy !== undefined && slices.has(producedBy));
+  }
+  return slices.has(el.sendsCommand) || getReadViews(el).some((view) => slices.has(view));
+}
+
+/**
+ * The model with only the timeline elements the filter lets through. The
+ * systems filter applies to events and the roles filter to actors; commands
+ * and state views are kept.
+ */
+export function filterModel(model: GiraflowModel, filter: ViewFilter): GiraflowModel {
+  if (!isFilterActive(filter)) return model;
+
+  const slices = new Set(filter.slices);
+  const sourcedEvents = new Set(
+    model.timeline.filter(isState).filter((state) => slices.has(state.name)).flatMap((state) => state.sourcedFrom)
+  );
+
+  const timeline = model.timeline.filter((el) => {
+    if (filter.types.length > 0 && !filter.types.includes(el.type)) return false;
+    if (!inTickRange(el.tick, filter)) return false;
+    if (filter.systems.length > 0 && isEvent(el) && !filter.systems.includes(el.system ?? '')) return false;
+    if (filter.roles.length > 0 && isActor(el) && !filter.roles.includes(el.role ?? '')) return false;
+    return slices.size === 0 || inSlices(el, slices, sourcedEvents);
+  });
+  return { ...model, timeline };
+}
+
+/**
+ * Whether a slice shows in the slice view. A slice matches the systems filter
+ * through its events and the roles filter through its actors; slices without
+ * events or actors are kept.
+ */
+export function isSliceVisible(slice: Slice, model: GiraflowModel, filter: ViewFilter): boolean {
+  if (filter.types.length > 0 && !filter.types.includes(slice.type)) return false;
+  if (filter.slices.length > 0 && !filter.slices.includes(slice.name)) return false;
+  if ((filter.fromTick !== null || filter.toTick !== null) && !slice.ticks.some((tick) => inTickRange(tick, filter))) {
+    return false;
+  }
+
+  if (filter.systems.length > 0) {
+    const events = slice.type === 'command' ? slice.produces : slice.sourcedFrom;
+    if (events.length > 0 && !events.some((event) => filter.systems.includes(event.system ?? ''))) return false;
+  }
+  if (filter.roles.length > 0) {
+    const actors = model.timeline
+      .filter(isActor)
+      .filter((actor) => (slice.type === 'command' ? actor.sendsCommand === slice.name : getReadViews(actor).includes(slice.name)));
+    if (actors.length > 0 && !actors.some((actor) => filter.roles.includes(actor.role ?? ''))) return false;
+  }
+  return true;
+}
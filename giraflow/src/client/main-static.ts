@@ -0,0 +1,30 @@
+import { mount } from 'svelte';
+import App from './App.svelte';
+import { modelStore } from './stores/model.svelte';
+import { SITE_DATA_ELEMENT_ID, type SiteData } from './lib/site-data';
+import './styles/global.css';
+
+// Static site: the model is baked into index.html by `giraflow build-site`
+// (or `giraflow export report`)
+const dataElement = document.getElementById(SITE_DATA_ELEMENT_ID);
+if (dataElement?.textContent) {
+  const data: SiteData = JSON.parse(dataElement.textContent);
+  modelStore.setStaticSite(data.assetPath, data.attachmentPath);
+  if (data.view) {
+    modelStore.setSingleView(data.view);
+  }
+  modelStore.updateModel({ ...data, error: null });
+  modelStore.syncRawJsonFromModel();
+  modelStore.updateSlices(data.slices);
+} else {
+  modelStore.setStaticSite('.', 'attachments');
+  modelStore.updateModel({ model: null, error: 'No model data found in this page', watchedFile: '' });
+}
+
+// Load expandAll preference from storage
+modelStore.loadExpandAllFromStorage();
+
+// Mount Svelte app
+const app = mount(App, { target: document.getElementById('app')! });
+
+export default app;
@@ -1,6 +1,8 @@
 import { mount } from 'svelte';
 import App from './App.svelte';
 import { modelStore, triggerWireframeReload } from './stores/model.svelte';
+import type { DiagnosticsMessage } from './lib/diagnostics';
+import type { TestResultsMessage } from './lib/test-results';
 import './styles/global.css';
 
 // Fetch model data from API
@@ -50,6 +52,18 @@ function connectSSE() {
     }
   };
 
+  // Typed message: semantic diagnostics, sent on connect and after every reload
+  events.addEventListener('diagnostics', (event) => {
+    const message: DiagnosticsMessage = JSON.parse((event as MessageEvent).data);
+    modelStore.updateDiagnostics(message.diagnostics);
+  });
+
+  // Typed message: scenario test results from the asset folder, sent on connect and on change
+  events.addEventListener('test-results', (event) => {
+    const message: TestResultsMessage = JSON.parse((event as MessageEvent).data);
+    modelStore.updateTestResults(message.testResults);
+  });
+
   events.onerror = () => {
     console.log('SSE connection lost, retrying...');
   };
@@ -1,5 +1,10 @@
 import type { GiraflowModel, ViewMode, Event, StateView, Command, Actor } from '../lib/types';
-import type { SliceViewModel } from '../lib/models/slice-model';
+import { buildSliceViewModel, type SliceViewModel } from '../lib/models/slice-model';
+import { lintModel, type LintDiagnostic } from '../lib/diagnostics';
+import type { TestResultsFile } from '../lib/test-results';
+import { diffModels, compareTimelines } from '../lib/model-diff';
+import { renameElement, findRenameProblem, type RenameType, type RenameChange, type WireframeRename } from '../lib/rename';
+import { EMPTY_VIEW_FILTER, filterModel, formatViewFilter, parseViewFilter, type ViewFilter } from '../lib/view-filter';
 
 const PUBLIC_SESSION_KEY = 'giraflow-public-session';
 
@@ -21,10 +26,19 @@ interface SessionGiraflow {
 
 const SESSION_GIRAFLOWS_KEY = 'giraflow-session-giraflows';
 
+export interface RenameReport {
+  error?: string;
+  changes: RenameChange[];
+  /** Wireframe files that were moved */
+  wireframes: WireframeRename[];
+}
+
 class ModelStore {
   model = $state<GiraflowModel | null>(null);
   slices = $state<SliceViewModel | null>(null);
   error = $state<string | null>(null);
+  diagnostics = $state<LintDiagnostic[]>([]);
+  testResults = $state<TestResultsFile | null>(null);
   watchedFile = $state<string>('');
   availableFiles = $state<string[]>([]);
   view = $state<ViewMode>('timeline');
@@ -34,8 +48,35 @@ class ModelStore {
   // Editor state
   rawJson = $state<string>('');
   isPublicMode = $state(false);
+  // Read-only site built with `giraflow build-site` (no server, relative URLs)
+  isStaticSite = $state(false);
+  staticAssetPath = $state('.');
+  staticAttachmentPath = $state('attachments');
+  // Only the current view, without header and navigation (`giraflow export report`)
+  isSingleView = $state(false);
   jsonError = $state<string | null>(null);
 
+  // Compare mode: a second version of the model (another file or a git revision)
+  // overlaid on the views, diffed against the current model
+  compareModel = $state<GiraflowModel | null>(null);
+  compareLabel = $state('');
+  compareError = $state<string | null>(null);
+  diff = $derived(this.model && this.compareModel ? diffModels(this.compareModel, this.model) : null);
+  comparison = $derived(
+    this.model && this.compareModel && this.diff ? compareTimelines(this.compareModel, this.model, this.diff) : null
+  );
+  compareSlices = $derived(this.compareModel ? buildSliceViewModel(this.compareModel) : null);
+
+  // Command palette (Ctrl+K / Cmd+K)
+  searchOpen = $state(false);
+
+  // View filter (systems, roles, types, slices, tick range), kept in the hash after "?"
+  viewFilter = $state<ViewFilter>(EMPTY_VIEW_FILTER);
+  filteredModel = $derived(this.model ? filterModel(this.model, this.viewFilter) : null);
+
+  // JSON Pointer the editor should reveal next (set from the problems panel)
+  editorRevealPointer = $state<string | null>(null);
+
   // Current example folder (for wireframe paths in public mode)
   currentExampleFolder = $state<string | null>(null);
 
@@ -119,6 +160,7 @@ class ModelStore {
           const parsed = JSON.parse(session.currentRawJson);
           this.model = parsed as GiraflowModel;
           this.error = null;
+          this.diagnostics = lintModel(this.model);
         } catch (e) {
           this.jsonError = e instanceof Error ? e.message : 'Invalid JSON';
           return false;
@@ -211,15 +253,29 @@ class ModelStore {
     return this.model.timeline.filter((el): el is Actor => el.type === 'actor');
   }
 
+  /**
+   * Hash for a view path, keeping the current view filter
+   */
+  hashFor(path: string): string {
+    const query = formatViewFilter(this.viewFilter);
+    return query ? `#${path}?${query}` : `#${path}`;
+  }
+
+  setViewFilter(filter: ViewFilter) {
+    this.viewFilter = filter;
+    const path = window.location.hash.slice(1).split('?')[0] || this.view;
+    history.replaceState(history.state, '', this.hashFor(path));
+  }
+
   setView(newView: ViewMode) {
-    history.pushState({ view: newView }, '', `#${newView}`);
+    history.pushState({ view: newView }, '', this.hashFor(newView));
     this.view = newView;
     this.savePublicSession();
   }
 
   navigateToTick(tick: number) {
     const newHash = `timeline/tick-${tick}`;
-    history.pushState({ view: 'timeline', tick }, '', `#${newHash}`);
+    history.pushState({ view: 'timeline', tick }, '', this.hashFor(newHash));
 
     this.highlightTick = tick;
     this.view = 'timeline';
@@ -237,7 +293,7 @@ class ModelStore {
   navigateToSlice(sliceKey: string) {
     // Use pushState for browser history support
     const newHash = `slice/${sliceKey}`;
-    history.pushState({ view: 'slice', sliceKey }, '', `#${newHash}`);
+    history.pushState({ view: 'slice', sliceKey }, '', this.hashFor(newHash));
 
     this.view = 'slice';
     requestAnimationFrame(() => {
@@ -248,8 +304,19 @@ class ModelStore {
     });
   }
 
+  navigateToPointer(pointer: string) {
+    this.editorRevealPointer = pointer;
+    this.setView('editor');
+  }
+
+  clearEditorReveal() {
+    this.editorRevealPointer = null;
+  }
+
   handleHashChange() {
-    const hash = window.location.hash.slice(1);
+    if (this.isSingleView) return;
+    const [hash, query] = window.location.hash.slice(1).split('?');
+    this.viewFilter = parseViewFilter(query ?? '');
 
     // Default to timeline view if no hash
     if (!hash) {
@@ -279,20 +346,15 @@ class ModelStore {
         }
       }
     } else if (viewPart === 'slice') {
+      // The slice view scrolls to the slice, scenario or step of the link
       this.view = 'slice';
-      if (targetPart) {
-        requestAnimationFrame(() => {
-          const el = document.getElementById(`slice-${targetPart}`);
-          if (el) {
-            el.scrollIntoView({ behavior: 'smooth', block: 'start' });
-          }
-        });
-      }
     } else if (viewPart === 'table') {
       this.view = 'table';
-    } else if (viewPart === 'editor') {
+    } else if (viewPart === 'report') {
+      this.view = 'report';
+    } else if (viewPart === 'editor' && !this.isStaticSite) {
       this.view = 'editor';
-    } else if (viewPart === 'howto') {
+    } else if (viewPart === 'howto' && !this.isStaticSite) {
       this.view = 'howto';
     }
   }
@@ -309,16 +371,31 @@ class ModelStore {
     }
   }
 
-  updateModel(data: { model: GiraflowModel | null; error: string | null; watchedFile: string; availableFiles?: string[] }) {
+  updateModel(data: { model: GiraflowModel | null; error: string | null; watchedFile: string; availableFiles?: string[]; diagnostics?: LintDiagnostic[]; testResults?: TestResultsFile | null }) {
     this.model = data.model;
     this.error = data.error;
     this.watchedFile = data.watchedFile;
     if (data.availableFiles) {
       this.availableFiles = data.availableFiles;
     }
+    if (data.diagnostics) {
+      this.diagnostics = data.diagnostics;
+    }
+    if (data.testResults !== undefined) {
+      this.testResults = data.testResults;
+    }
+  }
+
+  updateDiagnostics(diagnostics: LintDiagnostic[]) {
+    this.diagnostics = diagnostics;
+  }
+
+  updateTestResults(testResults: TestResultsFile | null) {
+    this.testResults = testResults;
   }
 
   async selectFile(fileName: string): Promise<boolean> {
+    this.clearCompare();
     const res = await fetch('/api/select-file', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -327,6 +404,28 @@ class ModelStore {
     return res.ok;
   }
 
+  /**
+   * Load the version to compare with: another file in the working directory or a git revision of the watched file
+   */
+  async compareWith(source: { file: string } | { rev: string }): Promise<boolean> {
+    const res = await fetch(`/api/compare?${new URLSearchParams(source)}`);
+    const data = await res.json();
+    if (!res.ok) {
+      this.compareError = data.error ?? 'Could not load the model to compare with';
+      return false;
+    }
+    this.compareModel = data.model;
+    this.compareLabel = data.label;
+    this.compareError = null;
+    return true;
+  }
+
+  clearCompare() {
+    this.compareModel = null;
+    this.compareLabel = '';
+    this.compareError = null;
+  }
+
   async createNewFile(name: string): Promise<{ success: boolean; fileName?: string; error?: string }> {
     const res = await fetch('/api/create-file', {
       method: 'POST',
@@ -336,6 +435,53 @@ class ModelStore {
     return res.json();
   }
 
+  /**
+   * Replace the model with an edited one: saved to the watched file, or kept
+   * in the session in public mode
+   */
+  async saveModel(model: GiraflowModel): Promise<boolean> {
+    const json = JSON.stringify(model, null, 2);
+    if (!this.isPublicMode) {
+      const res = await fetch('/api/model', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: json,
+      });
+      if (!res.ok) return false;
+    }
+    this.loadFromJson(json);
+    this.updateSlices(buildSliceViewModel(model));
+    return true;
+  }
+
+  /**
+   * Rename an element and every reference to it. Wireframe files can only be
+   * renamed by the server, not in public mode.
+   */
+  async rename(type: RenameType, from: string, to: string, options: { wireframes?: boolean } = {}): Promise<RenameReport> {
+    if (!this.model) return { error: 'No model loaded', changes: [], wireframes: [] };
+    const problem = findRenameProblem(this.model, type, from, to);
+    if (problem) return { error: problem, changes: [], wireframes: [] };
+
+    const wireframes = !!options.wireframes && !this.isPublicMode;
+    let moved: WireframeRename[] = [];
+    if (!this.isPublicMode) {
+      const res = await fetch('/api/rename', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, from, to, wireframes }),
+      });
+      const data = await res.json();
+      if (!res.ok) return { error: data.error ?? 'Could not rename', changes: [], wireframes: [] };
+      moved = data.wireframes;
+    }
+    // Only the wireframes the server actually moved get their paths updated
+    const result = renameElement(this.model, type, from, to, { wireframes: moved });
+    this.loadFromJson(JSON.stringify(result.model, null, 2));
+    this.updateSlices(buildSliceViewModel(result.model));
+    return { changes: result.changes, wireframes: moved };
+  }
+
   updateSlices(slices: SliceViewModel | null) {
     this.slices = slices;
   }
@@ -354,6 +500,10 @@ class ModelStore {
       const parsed = JSON.parse(json);
       this.model = parsed as GiraflowModel;
       this.error = null;
+      // No server in public mode: compute diagnostics locally
+      if (this.isPublicMode) {
+        this.diagnostics = lintModel(this.model);
+      }
       this.savePublicSession();
     } catch (e) {
       this.jsonError = e instanceof Error ? e.message : 'Invalid JSON';
@@ -371,6 +521,23 @@ class ModelStore {
     this.isPublicMode = isPublic;
   }
 
+  /**
+   * Switch to a static site: paths from the page to the asset folder and the attachments
+   */
+  setStaticSite(assetPath: string, attachmentPath: string) {
+    this.isStaticSite = true;
+    this.staticAssetPath = assetPath;
+    this.staticAttachmentPath = attachmentPath;
+  }
+
+  /**
+   * Show only one view, without header and navigation
+   */
+  setSingleView(view: ViewMode) {
+    this.view = view;
+    this.isSingleView = true;
+  }
+
   setCurrentExampleFolder(folder: string | null) {
     this.currentExampleFolder = folder;
   }
@@ -378,14 +545,36 @@ class ModelStore {
   /**
    * Get the URL path for a wireframe based on current mode.
    * In public mode: /examples/{folder}/{wireframe}
+   * In a static site: {assetPath}/{wireframe}
    * In local mode: /wireframes/{wireframe}
    */
   getWireframePath(wireframe: string): string {
     if (this.isPublicMode && this.currentExampleFolder) {
       return `/examples/${this.currentExampleFolder}/${wireframe}`;
     }
+    if (this.isStaticSite) {
+      return `${this.staticAssetPath}/${wireframe}`;
+    }
     return `/wireframes/${wireframe}`;
   }
+
+  /**
+   * Get the URL path for an attachment (path relative to the model file).
+   * In a static site: {attachmentPath}/{path}, otherwise /attachments/{path}
+   */
+  getAttachmentPath(attachmentPath: string): string {
+    return this.isStaticSite
+      ? `${this.staticAttachmentPath}/${attachmentPath}`
+      : `/attachments/${attachmentPath}`;
+  }
+
+  /**
+   * Get the URL path for a file of the viewer itself (logo, favicon),
+   * relative in a static site so it works from file://
+   */
+  getAppAssetPath(fileName: string): string {
+    return this.isStaticSite ? fileName : `/${fileName}`;
+  }
 }
 
 export const modelStore = new ModelStore();
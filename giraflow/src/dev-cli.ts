@@ -2,7 +2,7 @@
 
 import { spawn } from 'node:child_process';
 
-const CLI_COMMANDS = ['view', 'create', 'copy-schema', 'copy-ai-instructions', 'copy-example', 'generate-slices', '--help', '-h', '--version', '-V'];
+const CLI_COMMANDS = ['view', 'create', 'copy-schema', 'copy-ai-instructions', 'copy-example', 'generate-slices', 'lint', 'test', 'codegen', 'export', 'build-site', 'diff', 'merge', 'retick', 'rename', 'query', '--help', '-h', '--version', '-V'];
 
 async function main() {
   const args = process.argv.slice(2);
@@ -0,0 +1,148 @@
+import type { GiraflowModel, Event } from '../types.js';
+import { isEvent } from '../../shared/types.js';
+import { buildLaneConfig } from '../../shared/timeline-builder.js';
+import { buildSliceViewModel } from '../../shared/slice-builder.js';
+import { buildMessageSchemas, type JsonSchema } from '../../shared/message-schemas.js';
+import { toJsonPointer } from '../../shared/json-pointer.js';
+
+type AsyncApiDocument = Record<string, unknown>;
+
+/** Channel id of the lane for events without a system */
+const DEFAULT_CHANNEL = 'default';
+
+/**
+ * Component id for a name: AsyncAPI ids must match ^[A-Za-z0-9_.-]+$
+ */
+function toComponentId(name: string): string {
+  return name.replace(/[^A-Za-z0-9_.-]+/g, '_') || '_';
+}
+
+function uniqueIds(names: string[], toId: (name: string) => string): Map<string, string> {
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of names) {
+    let id = toId(name);
+    for (let i = 2; taken.has(id); i++) {
+      id = `${toId(name)}_${i}`;
+    }
+    taken.add(id);
+    ids.set(name, id);
+  }
+  return ids;
+}
+
+function ref(...tokens: string[]): { $ref: string } {
+  return { $ref: '#' + toJsonPointer(...tokens) };
+}
+
+/**
+ * Distinct example values, in timeline order
+ */
+function distinctExamples(occurrences: Event[]): unknown[] {
+  const seen = new Set<string>();
+  const examples: unknown[] = [];
+  for (const event of occurrences) {
+    if (event.example === undefined) continue;
+    const key = JSON.stringify(event.example);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    examples.push(event.example);
+  }
+  return examples;
+}
+
+/**
+ * Build an AsyncAPI 3 document for the event side of a model.
+ *
+ * - One channel per system lane (buildLaneConfig), carrying the events of that system
+ * - One message per event with the payload schema inferred from examples and scenarios
+ * - One send operation per command and channel, listing the events it produces
+ */
+export function buildAsyncApiDocument(model: GiraflowModel): AsyncApiDocument {
+  const events = model.timeline.filter(isEvent).sort((a, b) => a.tick - b.tick);
+  const eventsByName = new Map<string, Event[]>();
+  for (const event of events) {
+    eventsByName.set(event.name, [...(eventsByName.get(event.name) ?? []), event]);
+  }
+  const systemOf = (name: string) => eventsByName.get(name)?.find((e) => e.system)?.system ?? '';
+
+  // Channels follow the timeline's lane order (outermost system first, default lane last)
+  const lanes = buildLaneConfig(model).eventSystems;
+  const channelIds = uniqueIds(lanes, (system) => (system ? toComponentId(system) : DEFAULT_CHANNEL));
+  const messageIds = uniqueIds([...eventsByName.keys()], toComponentId);
+
+  const payloads = new Map<string, JsonSchema>();
+  for (const schema of buildMessageSchemas(model)) {
+    if (schema.kind !== 'event') continue;
+    // The payload is embedded in the message, which carries name and title itself
+    const payload = { ...schema.schema };
+    delete payload.$schema;
+    delete payload.title;
+    delete payload.description;
+    payloads.set(schema.name, payload);
+  }
+
+  const messages: Record<string, unknown> = {};
+  for (const [name, occurrences] of eventsByName) {
+    const examples = distinctExamples(occurrences);
+    const producers = [...new Set(occurrences.map((e) => e.producedBy?.replace(/-\d+$/, '')).filter(Boolean))];
+    messages[messageIds.get(name)!] = {
+      name,
+      title: name,
+      ...(producers.length > 0 ? { summary: `Produced by ${producers.join(', ')}` } : {}),
+      payload: payloads.get(name) ?? {},
+      ...(examples.length > 0 ? { examples: examples.map((payload) => ({ payload })) } : {}),
+    };
+  }
+
+  const channels: Record<string, unknown> = {};
+  for (const system of lanes) {
+    const channelId = channelIds.get(system)!;
+    const channelMessages: Record<string, unknown> = {};
+    for (const name of eventsByName.keys()) {
+      if (systemOf(name) !== system) continue;
+      const messageId = messageIds.get(name)!;
+      channelMessages[messageId] = ref('components', 'messages', messageId);
+    }
+    channels[channelId] = {
+      address: system || DEFAULT_CHANNEL,
+      title: system || 'Default',
+      description: system ? `Events of system "${system}"` : 'Events without a system',
+      messages: channelMessages,
+    };
+  }
+
+  const operations: Record<string, unknown> = {};
+  const commands = buildSliceViewModel(model).slices.filter((slice) => slice.type === 'command');
+  for (const command of commands) {
+    const produced = command.produces.filter((eventRef) => eventsByName.has(eventRef.name));
+    const producedLanes = lanes.filter((system) => produced.some((eventRef) => systemOf(eventRef.name) === system));
+    for (const system of producedLanes) {
+      const channelId = channelIds.get(system)!;
+      const baseId = toComponentId(command.name);
+      const operationId = producedLanes.length > 1 ? `${baseId}.${channelId}` : baseId;
+      operations[operationId] = {
+        action: 'send',
+        title: command.name,
+        summary: `Command "${command.name}" produces ${produced.map((eventRef) => eventRef.name).join(', ')}`,
+        channel: ref('channels', channelId),
+        messages: produced
+          .filter((eventRef) => systemOf(eventRef.name) === system)
+          .map((eventRef) => ref('channels', channelId, 'messages', messageIds.get(eventRef.name)!)),
+      };
+    }
+  }
+
+  return {
+    asyncapi: '3.0.0',
+    info: {
+      title: model.name,
+      version: model.version ?? '1.0.0',
+      ...(model.description ? { description: model.description } : {}),
+    },
+    defaultContentType: 'application/json',
+    channels,
+    operations,
+    components: { messages },
+  };
+}
@@ -0,0 +1,253 @@
+import type {
+  GiraflowModel,
+  EventReference,
+  StateViewScenario,
+  CommandScenario,
+  TimelineScenario,
+} from '../types.js';
+import { buildSliceViewModel, type Slice } from '../../shared/slice-builder.js';
+import { toCommandSteps } from './scenario-runner.js';
+import { quote, toKebabCase, type GeneratedFile } from './codegen.js';
+
+export type TestRunner = 'vitest' | 'jest';
+
+export const TEST_RUNNERS: TestRunner[] = ['vitest', 'jest'];
+
+const RUNNER_IMPORTS: Record<TestRunner, string> = {
+  vitest: 'vitest',
+  jest: '@jest/globals',
+};
+
+const DATA_START = '// <giraflow:data>';
+const DATA_END = '// </giraflow:data>';
+const DATA_BLOCK = /^\/\/ <giraflow:data>.*$[\s\S]*?^\/\/ <\/giraflow:data>$/m;
+
+interface CommandTestCase {
+  given: EventReference[];
+  when: { name: string; data?: unknown };
+  then?: EventReference[];
+  fails?: string;
+}
+
+interface StateTestCase {
+  initialState?: unknown;
+  steps: { given: EventReference; then?: unknown }[];
+}
+
+/**
+ * Given/when/then cases of a command scenario: every command step becomes a
+ * case whose given events are all events before it (context events plus the
+ * events expected from earlier commands).
+ */
+function toCommandTestCases(commandName: string, scenario: CommandScenario | TimelineScenario): CommandTestCase[] {
+  const cases: CommandTestCase[] = [];
+  const pastEvents: EventReference[] = [];
+
+  for (const step of toCommandSteps(scenario)) {
+    if (step.type === 'events-only') {
+      pastEvents.push(...step.events);
+      continue;
+    }
+    const when = { name: commandName, ...(step.when !== undefined ? { data: step.when } : {}) };
+    if (step.fails !== undefined) {
+      cases.push({ given: [...pastEvents], when, fails: step.fails });
+      continue;
+    }
+    const then = step.produces ?? [];
+    cases.push({ given: [...pastEvents], when, then });
+    pastEvents.push(...then);
+  }
+
+  return cases;
+}
+
+function toStateTestCase(scenario: StateViewScenario): StateTestCase {
+  return {
+    ...(scenario.initialState !== undefined ? { initialState: scenario.initialState } : {}),
+    steps: (scenario.steps ?? []).map((step) => ({
+      given: step.given,
+      ...(step.then !== undefined ? { then: step.then } : {}),
+    })),
+  };
+}
+
+/**
+ * Scenario names used as keys of the generated data; duplicates get a suffix.
+ */
+function scenarioKeys(slice: Slice): string[] {
+  const seen = new Map<string, number>();
+  return slice.scenarios.map((scenario) => {
+    const count = (seen.get(scenario.name) ?? 0) + 1;
+    seen.set(scenario.name, count);
+    return count === 1 ? scenario.name : `${scenario.name} (${count})`;
+  });
+}
+
+function renderDataBlock(slice: Slice): string {
+  const keys = scenarioKeys(slice);
+  const entries = slice.scenarios.map((scenario, index) => {
+    const data = slice.type === 'command'
+      ? toCommandTestCases(slice.name, scenario as CommandScenario | TimelineScenario)
+      : toStateTestCase(scenario as StateViewScenario);
+    const value = JSON.stringify(data, null, 2).replace(/\n/g, '\n  ');
+    return `  ${quote(keys[index])}: ${value},`;
+  });
+  const type = slice.type === 'command' ? 'CommandTestCase[]' : 'StateTestCase';
+  return [
+    `${DATA_START} Generated from the model – re-running codegen replaces this block`,
+    `const scenarios: Record<string, ${type}> = {`,
+    ...entries,
+    '};',
+    DATA_END,
+  ].join('\n');
+}
+
+function renderCommandTest(key: string): string {
+  return [
+    `  it(${quote(key)}, async () => {`,
+    `    for (const step of scenarios[${quote(key)}]) {`,
+    `      const run = async () => decide(step.when as Command, step.given as Event[]);`,
+    `      if (step.fails !== undefined) {`,
+    `        await expect(run()).rejects.toThrow(step.fails);`,
+    `      } else {`,
+    `        expect(await run()).toEqual(step.then);`,
+    `      }`,
+    `    }`,
+    `  });`,
+  ].join('\n');
+}
+
+function renderStateTest(key: string, stateType: string): string {
+  return [
+    `  it(${quote(key)}, () => {`,
+    `    const { initialState, steps } = scenarios[${quote(key)}];`,
+    `    let state = initialState as ${stateType};`,
+    `    for (const { given, then } of steps) {`,
+    `      state = project(state, given as Event);`,
+    `      if (then !== undefined) expect(state).toEqual(then);`,
+    `    }`,
+    `  });`,
+  ].join('\n');
+}
+
+function renderTests(slice: Slice, keys: string[], stateType: string): string {
+  return keys
+    .map((key) => slice.type === 'command' ? renderCommandTest(key) : renderStateTest(key, stateType))
+    .join('\n\n');
+}
+
+function renderPreamble(slice: Slice, runner: TestRunner, stateType: string): string {
+  const label = slice.type === 'command' ? 'command' : 'state view';
+  const lines = [
+    `// Tests for ${label} "${slice.name}", scaffolded by giraflow codegen --tests.`,
+    '// Re-running codegen only replaces the giraflow:data block; everything else is yours to edit.',
+    `import { describe, it, expect } from '${RUNNER_IMPORTS[runner]}';`,
+  ];
+
+  if (slice.type === 'command') {
+    lines.push(
+      `import type { Command, CommandName, Event, EventName } from '../../index.js';`,
+      '',
+      'interface CommandTestCase {',
+      '  given: { event: EventName; data?: unknown }[];',
+      '  when: { name: CommandName; data?: unknown };',
+      '  then?: { event: EventName; data?: unknown }[];',
+      '  fails?: string;',
+      '}',
+      '',
+      '// TODO: replace with your decider (throw to reject the command)',
+      'async function decide(command: Command, pastEvents: Event[]): Promise<Event[]> {',
+      `  throw new Error('Not implemented');`,
+      '}',
+    );
+  } else {
+    lines.push(
+      `import type { Event, EventName, ${stateType} } from '../../index.js';`,
+      '',
+      'interface StateTestCase {',
+      '  initialState?: unknown;',
+      '  steps: { given: { event: EventName; data?: unknown }; then?: unknown }[];',
+      '}',
+      '',
+      `// TODO: replace with your projection for "${slice.name}"`,
+      `function project(state: ${stateType}, event: Event): ${stateType} {`,
+      `  throw new Error('Not implemented');`,
+      '}',
+    );
+  }
+  return lines.join('\n');
+}
+
+export interface TestScaffold extends GeneratedFile {
+  /** Data block, the only part replaced in existing files */
+  data: string;
+  /** Scenario keys with a generated test case */
+  scenarios: string[];
+  /** Renders test cases for scenarios missing from an existing file */
+  renderTests: (keys: string[]) => string;
+  sliceName: string;
+}
+
+/**
+ * Generate one test file per slice (commands/<name>.test.ts,
+ * state-views/<name>.test.ts) with its spec scenarios and Timeline Scenario
+ * as data. Tests import the generated types from the output directory.
+ *
+ * @param stateTypeNames TypeScript type name per state view name
+ */
+export function generateTestScaffolds(
+  model: GiraflowModel,
+  runner: TestRunner,
+  stateTypeNames: Map<string, string>
+): TestScaffold[] {
+  return buildSliceViewModel(model).slices
+    .filter((slice) => slice.scenarios.length > 0)
+    .map((slice) => {
+      const stateType = stateTypeNames.get(slice.name) ?? 'unknown';
+      const keys = scenarioKeys(slice);
+      const data = renderDataBlock(slice);
+      const folder = slice.type === 'command' ? 'commands' : 'state-views';
+      const content = [
+        renderPreamble(slice, runner, stateType),
+        data,
+        `describe(${quote(slice.name)}, () => {\n${renderTests(slice, keys, stateType)}\n});`,
+      ].join('\n\n') + '\n';
+
+      return {
+        path: `tests/${folder}/${toKebabCase(slice.name)}.test.ts`,
+        content,
+        data,
+        scenarios: keys,
+        renderTests: (missing: string[]) => renderTests(slice, missing, stateType),
+        sliceName: slice.name,
+      };
+    });
+}
+
+export interface MergedTestFile {
+  content: string;
+  /** Scenarios that got a new test case */
+  added: string[];
+  /** Scenarios referenced by the file that are no longer in the model */
+  stale: string[];
+}
+
+/**
+ * Update an existing test file: replace its data block and append test cases
+ * for new scenarios, keeping everything else. Returns null if the file has no
+ * data block.
+ */
+export function mergeTestScaffold(existing: string, scaffold: TestScaffold): MergedTestFile | null {
+  if (!DATA_BLOCK.test(existing)) return null;
+
+  let content = existing.replace(DATA_BLOCK, () => scaffold.data);
+  const code = content.replace(DATA_BLOCK, '');
+  const added = scaffold.scenarios.filter((key) => !code.includes(`scenarios[${quote(key)}]`));
+  const referenced = [...code.matchAll(/scenarios\['((?:[^'\\]|\\.)*)'\]/g)].map((m) => m[1].replace(/\\(.)/g, '$1'));
+  const stale = [...new Set(referenced)].filter((key) => !scaffold.scenarios.includes(key));
+
+  if (added.length > 0) {
+    content = content.trimEnd() + `\n\ndescribe(${quote(`${scaffold.sliceName} (new scenarios)`)}, () => {\n${scaffold.renderTests(added)}\n});\n`;
+  }
+  return { content, added, stale };
+}
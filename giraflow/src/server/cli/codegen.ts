@@ -0,0 +1,230 @@
+import type { Shape } from '../../shared/example-shapes.js';
+import type { MessageCatalog, MessageType } from '../../shared/message-catalog.js';
+
+export type CodegenLanguage = 'ts';
+
+export const CODEGEN_LANGUAGES: CodegenLanguage[] = ['ts'];
+
+export interface GeneratedFile {
+  /** Path relative to the output directory */
+  path: string;
+  content: string;
+}
+
+const KIND_SUFFIXES: Record<MessageType['kind'], string> = {
+  event: 'Event',
+  command: 'Command',
+  state: 'State',
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * PascalCase type name for a model name ("add todo" → "AddTodo")
+ */
+export function toTypeName(name: string): string {
+  const typeName = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  if (!typeName) return 'Unnamed';
+  return /^\d/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+/**
+ * kebab-case name for file names and URL paths ("AddTodo" → "add-todo")
+ */
+export function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase() || 'unnamed';
+}
+
+/**
+ * TypeScript names of all generated types. Payload types are named after the
+ * message; the kind is appended where names of different kinds collide.
+ */
+export interface TypeNames {
+  /** Payload type per "kind:name" */
+  payload: Map<string, string>;
+  /** Message type per "kind:name" ({ event, data } or { name, data }) */
+  message: Map<string, string>;
+}
+
+export function messageKey(message: Pick<MessageType, 'kind' | 'name'>): string {
+  return `${message.kind}:${message.name}`;
+}
+
+export function assignTypeNames(catalog: MessageCatalog): TypeNames {
+  const taken = new Set(['Event', 'Command', 'EventName', 'CommandName']);
+  const reserve = (name: string): string => {
+    let candidate = name;
+    for (let i = 2; taken.has(candidate); i++) {
+      candidate = `${name}${i}`;
+    }
+    taken.add(candidate);
+    return candidate;
+  };
+
+  const messages = [...catalog.events, ...catalog.commands, ...catalog.states];
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    const base = toTypeName(message.name);
+    counts.set(base, (counts.get(base) ?? 0) + 1);
+  }
+
+  const names: TypeNames = { payload: new Map(), message: new Map() };
+  for (const message of messages) {
+    const base = toTypeName(message.name);
+    const suffix = KIND_SUFFIXES[message.kind];
+    const payload = counts.get(base)! > 1 ? `${base}${suffix}` : base;
+    names.payload.set(messageKey(message), reserve(payload));
+  }
+  // Message wrappers are named after their payload, e.g. TodoAdded → TodoAddedEvent
+  for (const message of [...catalog.events, ...catalog.commands]) {
+    const payload = names.payload.get(messageKey(message))!;
+    const suffix = KIND_SUFFIXES[message.kind];
+    names.message.set(messageKey(message), reserve(payload.endsWith(suffix) ? `${payload}Message` : `${payload}${suffix}`));
+  }
+  return names;
+}
+
+/**
+ * Single-quoted TypeScript string literal
+ */
+export function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function formatKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+/**
+ * Render a shape as a TypeScript type expression
+ */
+export function renderType(shape: Shape, indent = ''): string {
+  switch (shape.kind) {
+    case 'unknown':
+    case 'null':
+    case 'boolean':
+    case 'string':
+    case 'number':
+      return shape.kind;
+    case 'integer':
+      return 'number';
+    case 'array': {
+      const items = renderType(shape.items, indent);
+      return shape.items.kind === 'union' ? `(${items})[]` : `${items}[]`;
+    }
+    case 'object': {
+      const entries = Object.entries(shape.properties);
+      if (entries.length === 0) return 'Record<string, unknown>';
+      const inner = indent + '  ';
+      const lines = entries.map(
+        ([key, property]) => `${inner}${formatKey(key)}${property.optional ? '?' : ''}: ${renderType(property.shape, inner)};`
+      );
+      return `{\n${lines.join('\n')}\n${indent}}`;
+    }
+    case 'union':
+      return shape.variants.map((variant) => renderType(variant, indent)).join(' | ');
+  }
+}
+
+function describe(message: MessageType): string {
+  const label = { event: 'Event', command: 'Command', state: 'State view' }[message.kind];
+  const source = message.exampleCount === 0
+    ? 'no example in the model'
+    : `inferred from ${message.exampleCount} example${message.exampleCount === 1 ? '' : 's'}`;
+  return `/** ${label} "${message.name}" – ${source} */`;
+}
+
+function renderPayload(message: MessageType, typeName: string): string {
+  const body = renderType(message.shape);
+  const declaration = message.shape.kind === 'object' && body.startsWith('{')
+    ? `export interface ${typeName} ${body}`
+    : `export type ${typeName} = ${body};`;
+  return `${describe(message)}\n${declaration}`;
+}
+
+function renderUnion(name: string, members: string[]): string {
+  if (members.length === 0) return `export type ${name} = never;`;
+  if (members.length === 1) return `export type ${name} = ${members[0]};`;
+  return `export type ${name} =\n${members.map((m) => `  | ${m}`).join('\n')};`;
+}
+
+function header(catalog: MessageCatalog): string {
+  return `// Generated by giraflow codegen from "${catalog.modelName}". Do not edit by hand.`;
+}
+
+function linkedEvents(message: MessageType, names: TypeNames): string[] {
+  return message.events
+    .map((event) => names.message.get(messageKey({ kind: 'event', name: event })))
+    .filter((name): name is string => name !== undefined);
+}
+
+function renderEventsFile(catalog: MessageCatalog, names: TypeNames): string {
+  const blocks = [header(catalog)];
+  for (const event of catalog.events) {
+    const payload = names.payload.get(messageKey(event))!;
+    const message = names.message.get(messageKey(event))!;
+    blocks.push(renderPayload(event, payload));
+    blocks.push(`export interface ${message} {\n  event: ${quote(event.name)};\n  data: ${payload};\n}`);
+  }
+  blocks.push(renderUnion('Event', catalog.events.map((e) => names.message.get(messageKey(e))!)));
+  blocks.push(`export type EventName = Event['event'];`);
+  return blocks.join('\n\n') + '\n';
+}
+
+function renderImports(typeNames: string[], from: string): string {
+  if (typeNames.length === 0) return '';
+  return `\n\nimport type { ${typeNames.join(', ')} } from '${from}';`;
+}
+
+function renderCommandsFile(catalog: MessageCatalog, names: TypeNames): string {
+  const imported = new Set(catalog.commands.flatMap((command) => linkedEvents(command, names)));
+  const blocks = [header(catalog) + renderImports([...imported], './events.js')];
+  for (const command of catalog.commands) {
+    const payload = names.payload.get(messageKey(command))!;
+    const message = names.message.get(messageKey(command))!;
+    blocks.push(renderPayload(command, payload));
+    blocks.push(`export interface ${message} {\n  name: ${quote(command.name)};\n  data: ${payload};\n}`);
+    blocks.push(`/** Events produced by "${command.name}" */\n` + renderUnion(`${payload}ProducedEvent`, linkedEvents(command, names)));
+  }
+  blocks.push(renderUnion('Command', catalog.commands.map((c) => names.message.get(messageKey(c))!)));
+  blocks.push(`export type CommandName = Command['name'];`);
+  return blocks.join('\n\n') + '\n';
+}
+
+function renderStateViewsFile(catalog: MessageCatalog, names: TypeNames): string {
+  const imported = new Set(catalog.states.flatMap((state) => linkedEvents(state, names)));
+  const blocks = [header(catalog) + renderImports([...imported], './events.js')];
+  for (const state of catalog.states) {
+    const payload = names.payload.get(messageKey(state))!;
+    blocks.push(renderPayload(state, payload));
+    blocks.push(`/** Events "${state.name}" is sourced from */\n` + renderUnion(`${payload}SourceEvent`, linkedEvents(state, names)));
+    blocks.push(`export type ${payload}Projection = (state: ${payload}, event: ${payload}SourceEvent) => ${payload};`);
+  }
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Generate TypeScript types for all messages of a model: one file each for
+ * events, commands and state views, plus an index re-exporting them.
+ */
+export function generateTypeScript(catalog: MessageCatalog): GeneratedFile[] {
+  const names = assignTypeNames(catalog);
+  return [
+    { path: 'events.ts', content: renderEventsFile(catalog, names) },
+    { path: 'commands.ts', content: renderCommandsFile(catalog, names) },
+    { path: 'state-views.ts', content: renderStateViewsFile(catalog, names) },
+    {
+      path: 'index.ts',
+      content: header(catalog) + "\n\nexport * from './events.js';\nexport * from './commands.js';\nexport * from './state-views.js';\n",
+    },
+  ];
+}
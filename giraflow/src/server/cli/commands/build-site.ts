@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import { resolve, sep } from 'path';
+import { buildSite, getBundledSitePath } from '../site-builder.js';
+import { readModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+export function buildSiteCommand(): Command {
+  return new Command('build-site')
+    .description('Build a static site (Timeline, Slices, Table) that works from file:// or any static host')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --out <dir>', 'Output directory', 'site')
+    .action(async (file: string, options: { out: string }) => {
+      const model = await readModel(file);
+
+      // The asset folder is copied into the site, so the site cannot be part of it
+      const assetDir = resolve(file.replace(/\.json$/i, ''));
+      const outDir = resolve(options.out);
+      if (outDir === assetDir || outDir.startsWith(assetDir + sep)) {
+        console.error(colors.red('Error:') + ` --out cannot be inside the model's asset folder ${file.replace(/\.json$/i, '')}`);
+        process.exit(1);
+      }
+
+      const siteDir = getBundledSitePath();
+      if (!siteDir) {
+        console.error(colors.red('Error:') + ' Bundled site viewer not found (run `npm run build:site` in a source checkout)');
+        process.exit(1);
+      }
+
+      const { assetFiles, attachments, missing } = buildSite(file, model, siteDir, options.out);
+
+      for (const path of missing) {
+        console.log(`  ${colors.yellow('⚠')} Not found, skipped: ${path}`);
+      }
+      const counts = colors.dim(`(${assetFiles} asset files, ${attachments} attachments)`);
+      console.log(`${colors.green.bold('✓ Site built:')} ${options.out}/index.html ${counts}`);
+    });
+}
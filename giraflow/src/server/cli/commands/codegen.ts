@@ -0,0 +1,106 @@
+import { Command } from 'commander';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { buildMessageCatalog } from '../../../shared/message-catalog.js';
+import {
+  generateTypeScript,
+  assignTypeNames,
+  messageKey,
+  CODEGEN_LANGUAGES,
+  type CodegenLanguage,
+} from '../codegen.js';
+import {
+  generateTestScaffolds,
+  mergeTestScaffold,
+  TEST_RUNNERS,
+  type TestRunner,
+  type TestScaffold,
+} from '../codegen-tests.js';
+import { readModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+interface CodegenOptions {
+  lang: string;
+  out: string;
+  tests?: boolean;
+  testRunner: string;
+}
+
+export function codegenCommand(): Command {
+  return new Command('codegen')
+    .description('Generate types for events, commands and state views from the model examples')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-l, --lang <language>', `Target language: ${CODEGEN_LANGUAGES.join(', ')}`, 'ts')
+    .option('-o, --out <dir>', 'Output directory', 'generated')
+    .option('--tests', 'Also scaffold given/when/then test files from the scenarios')
+    .option('--test-runner <runner>', `Test framework for --tests: ${TEST_RUNNERS.join(', ')}`, 'vitest')
+    .action(async (file: string, options: CodegenOptions) => {
+      await runCodegen(file, options);
+    });
+}
+
+async function runCodegen(file: string, options: CodegenOptions): Promise<void> {
+  const lang = options.lang as CodegenLanguage;
+  if (!CODEGEN_LANGUAGES.includes(lang)) {
+    console.error(colors.red('Error:') + ` Unknown language "${options.lang}". Use one of: ${CODEGEN_LANGUAGES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const runner = options.testRunner as TestRunner;
+  if (!TEST_RUNNERS.includes(runner)) {
+    console.error(colors.red('Error:') + ` Unknown test runner "${options.testRunner}". Use one of: ${TEST_RUNNERS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const model = await readModel(file);
+
+  const catalog = buildMessageCatalog(model);
+  const files = generateTypeScript(catalog);
+
+  for (const generated of files) {
+    const target = join(options.out, generated.path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, generated.content);
+  }
+
+  const counts = `${catalog.events.length} events, ${catalog.commands.length} commands, ${catalog.states.length} state views`;
+  console.log(`${colors.green.bold('✓ Generated')} ${files.length} files in ${options.out} ${colors.dim(`(${counts})`)}`);
+
+  if (options.tests) {
+    const typeNames = assignTypeNames(catalog);
+    const stateTypeNames = new Map(catalog.states.map((state) => [state.name, typeNames.payload.get(messageKey(state))!]));
+    await writeTestScaffolds(generateTestScaffolds(model, runner, stateTypeNames), options.out);
+  }
+}
+
+async function writeTestScaffolds(scaffolds: TestScaffold[], out: string): Promise<void> {
+  let created = 0;
+  let updated = 0;
+
+  for (const scaffold of scaffolds) {
+    const target = join(out, scaffold.path);
+    if (!existsSync(target)) {
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, scaffold.content);
+      created++;
+      continue;
+    }
+
+    const merged = mergeTestScaffold(await readFile(target, 'utf-8'), scaffold);
+    if (!merged) {
+      console.log(`  ${colors.yellow('⚠')} ${target}: no giraflow:data block found, left unchanged`);
+      continue;
+    }
+    await writeFile(target, merged.content);
+    updated++;
+    if (merged.added.length > 0) {
+      console.log(`  ${colors.green('+')} ${target}: added tests for ${merged.added.map((s) => `"${s}"`).join(', ')}`);
+    }
+    if (merged.stale.length > 0) {
+      console.log(`  ${colors.yellow('⚠')} ${target}: no longer in the model: ${merged.stale.map((s) => `"${s}"`).join(', ')}`);
+    }
+  }
+
+  console.log(`${colors.green.bold('✓ Test scaffolds:')} ${created} created, ${updated} updated ${colors.dim(`(${join(out, 'tests')})`)}`);
+}
@@ -119,16 +119,20 @@ async function promptElement(tick: number, timeline: TimelineElement[]): Promise
     }
     case 'actor': {
       const lastState = [...timeline].reverse().find((el) => el.type === 'state');
-      const readsView = await input({
-        message: 'readsView (state view name, optional):',
+      const readsViewRaw = await input({
+        message: 'readsView (comma-separated state view names, optional):',
         ...(lastState && { default: lastState.name }),
       });
+      const readsView = readsViewRaw
+        .split(',')
+        .map((s) => s.trim())
+        .filter((s) => s.length > 0);
       const sendsCommand = await input({ message: 'sendsCommand (command name, optional):' });
       const el: TimelineElement = {
         type: 'actor',
         name: trimmedName,
         tick,
-        readsView: readsView.trim() || '',
+        readsView: readsView.length > 1 ? readsView : readsView[0] ?? '',
         sendsCommand: sendsCommand.trim() || '',
       };
       return el;
@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import type { GiraflowModel } from '../../types.js';
+import { diffModels } from '../../../shared/model-diff.js';
+import { formatDiffReport, DIFF_FORMATS, type DiffFormat } from '../diff-report.js';
+import { readModel, parseModel } from '../model-file.js';
+import { colors } from '../colors.js';
+import { readFileAtRevision } from '../../git.js';
+
+interface DiffOptions {
+  rev?: string;
+  format: string;
+  output?: string;
+}
+
+export function diffCommand(): Command {
+  return new Command('diff')
+    .description('Show the semantic changes between two versions of a model (slices matched by type and name, not by tick)')
+    .argument('<base>', 'Old version of the .giraflow.json file (or the file to compare with --rev)')
+    .argument('[head]', 'New version of the .giraflow.json file')
+    .option('--rev <revision>', 'Compare <base> at a git revision (e.g. HEAD~1, main) with the working copy')
+    .option('-f, --format <format>', `Output format: ${DIFF_FORMATS.join(', ')}`, 'human')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .action(async (base: string, head: string | undefined, options: DiffOptions) => {
+      await runDiff(base, head, options);
+    });
+}
+
+/**
+ * Read a model as of a git revision, from the repository the file is in
+ */
+function readModelAtRevision(file: string, rev: string): GiraflowModel {
+  let source: string;
+  try {
+    source = readFileAtRevision(file, rev);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(colors.red('Error:') + ` Could not read ${file} at ${rev}: ${message}`);
+    process.exit(1);
+  }
+  return parseModel(source, `${rev}:${file}`);
+}
+
+async function runDiff(base: string, head: string | undefined, options: DiffOptions): Promise<void> {
+  const format = options.format as DiffFormat;
+  if (!DIFF_FORMATS.includes(format)) {
+    console.error(colors.red('Error:') + ` Unknown format "${options.format}". Use one of: ${DIFF_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  if (options.rev && head) {
+    console.error(colors.red('Error:') + ' --rev compares a single file with its working copy; pass one file');
+    process.exit(1);
+  }
+  if (!options.rev && !head) {
+    console.error(colors.red('Error:') + ' Pass two files to compare, or one file and --rev <revision>');
+    process.exit(1);
+  }
+
+  const labels = options.rev
+    ? { before: `${options.rev}:${base}`, after: base }
+    : { before: base, after: head! };
+  const before = options.rev ? readModelAtRevision(base, options.rev) : await readModel(base);
+  const after = await readModel(options.rev ? base : head!);
+
+  const report = formatDiffReport(diffModels(before, after), labels, format);
+  if (options.output) {
+    await writeFile(options.output, report.replace(/\x1b\[[0-9;]*m/g, ''));
+    console.log(`${colors.green.bold('✓ Diff saved to:')} ${options.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+}
@@ -0,0 +1,191 @@
+import { Command } from 'commander';
+import { writeFile, mkdir } from 'fs/promises';
+import { join, dirname, relative, sep } from 'path';
+import { buildMessageSchemas } from '../../../shared/message-schemas.js';
+import { writeMessageSchemas, SCHEMAS_FOLDER } from '../../message-schemas.js';
+import { buildAsyncApiDocument } from '../asyncapi.js';
+import { buildOpenApiDocument } from '../openapi.js';
+import { renderDiagram, DIAGRAM_FORMATS, type DiagramFormat } from '../../../shared/diagram-export.js';
+import { renderTimelineSvg } from '../../../shared/svg-timeline.js';
+import { renderMarkdownDocument, renderMarkdownFiles } from '../markdown-export.js';
+import { getBundledSitePath, renderReportPage } from '../site-builder.js';
+import { readModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+export function exportCommand(): Command {
+  return new Command('export')
+    .description('Export the model to other formats')
+    .addCommand(exportSchemasCommand())
+    .addCommand(exportAsyncApiCommand())
+    .addCommand(exportOpenApiCommand())
+    .addCommand(exportDiagramCommand())
+    .addCommand(exportSvgCommand())
+    .addCommand(exportMarkdownCommand())
+    .addCommand(exportReportCommand());
+}
+
+async function writeOutput(content: string, output: string | undefined, label: string): Promise<void> {
+  if (output) {
+    await writeFile(output, content);
+    console.log(`${colors.green.bold(`✓ ${label} saved to:`)} ${output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+// ============================================================================
+// schemas
+// ============================================================================
+
+function exportSchemasCommand(): Command {
+  return new Command('schemas')
+    .description('Write a JSON Schema per event, command and state view, inferred from examples and scenarios')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --out <dir>', 'Output directory (default: schemas/ in the asset folder)')
+    .action(async (file: string, options: { out?: string }) => {
+      const model = await readModel(file);
+      // Asset folder: hotel.giraflow.json → hotel.giraflow/schemas/
+      const out = options.out ?? join(file.replace(/\.json$/i, ''), SCHEMAS_FOLDER);
+      const schemas = buildMessageSchemas(model);
+      const { written, removed } = writeMessageSchemas(out, schemas);
+
+      for (const conflict of schemas.flatMap((s) => s.conflicts)) {
+        const location = conflict.pointer || '(root)';
+        console.log(`  ${colors.yellow('⚠')} ${conflict.kind} ${colors.bold(conflict.message)} ${colors.dim(location)}: types differ (${conflict.types.join(', ')})`);
+      }
+
+      const changes = colors.dim(`(${written} written, ${removed} removed)`);
+      console.log(`${colors.green.bold('✓ Schemas:')} ${schemas.length} in ${out} ${changes}`);
+    });
+}
+
+// ============================================================================
+// asyncapi
+// ============================================================================
+
+function exportAsyncApiCommand(): Command {
+  return new Command('asyncapi')
+    .description('Export the events as an AsyncAPI 3 document (one channel per system)')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --output <file>', 'Write the document to a file instead of stdout')
+    .action(async (file: string, options: { output?: string }) => {
+      const model = await readModel(file);
+      const document = buildAsyncApiDocument(model);
+      await writeOutput(JSON.stringify(document, null, 2) + '\n', options.output, 'AsyncAPI document');
+    });
+}
+
+// ============================================================================
+// openapi
+// ============================================================================
+
+function exportOpenApiCommand(): Command {
+  return new Command('openapi')
+    .description('Export commands (POST) and state views (GET) as an OpenAPI 3.1 document')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --output <file>', 'Write the document to a file instead of stdout')
+    .action(async (file: string, options: { output?: string }) => {
+      const model = await readModel(file);
+      const document = buildOpenApiDocument(model);
+      await writeOutput(JSON.stringify(document, null, 2) + '\n', options.output, 'OpenAPI document');
+    });
+}
+
+// ============================================================================
+// diagram
+// ============================================================================
+
+function exportDiagramCommand(): Command {
+  return new Command('diagram')
+    .description('Export the timeline as a Mermaid or PlantUML diagram (lanes by system and role)')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-f, --format <format>', `Diagram format: ${DIAGRAM_FORMATS.join(', ')}`, 'mermaid')
+    .option('-o, --output <file>', 'Write the diagram to a file instead of stdout')
+    .action(async (file: string, options: { format: string; output?: string }) => {
+      const format = options.format as DiagramFormat;
+      if (!DIAGRAM_FORMATS.includes(format)) {
+        console.error(colors.red('Error:') + ` Unknown format "${options.format}". Use one of: ${DIAGRAM_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+      const model = await readModel(file);
+      await writeOutput(renderDiagram(model, format), options.output, 'Diagram');
+    });
+}
+
+// ============================================================================
+// svg
+// ============================================================================
+
+function exportSvgCommand(): Command {
+  return new Command('svg')
+    .description('Render the horizontal timeline as a standalone SVG')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --output <file>', 'Write the SVG to a file instead of stdout')
+    .action(async (file: string, options: { output?: string }) => {
+      const model = await readModel(file);
+      await writeOutput(renderTimelineSvg(model), options.output, 'SVG');
+    });
+}
+
+// ============================================================================
+// markdown
+// ============================================================================
+
+interface MarkdownCommandOptions {
+  output?: string;
+  perSlice?: boolean;
+}
+
+function exportMarkdownCommand(): Command {
+  return new Command('markdown')
+    .description('Export a Markdown specification document with every slice and its scenarios')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --output <path>', 'Output file (default: stdout), or directory with --per-slice (default: docs)')
+    .option('--per-slice', 'Write index.md plus one document per slice')
+    .action(async (file: string, options: MarkdownCommandOptions) => {
+      const model = await readModel(file);
+      // Wireframes live in the asset folder (hotel.giraflow.json → hotel.giraflow/),
+      // attachments next to the model file; both are linked relative to the output
+      const linkFrom = (dir: string) => ({
+        assetPath: relative(dir, file.replace(/\.json$/i, '')).split(sep).join('/') || '.',
+        modelDirPath: relative(dir, dirname(file)).split(sep).join('/') || '.',
+      });
+
+      if (!options.perSlice) {
+        const links = linkFrom(options.output ? dirname(options.output) : '.');
+        await writeOutput(renderMarkdownDocument(model, links), options.output, 'Markdown document');
+        return;
+      }
+
+      const out = options.output ?? 'docs';
+      const files = renderMarkdownFiles(model, linkFrom(out));
+      for (const generated of files) {
+        const target = join(out, generated.path);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, generated.content);
+      }
+      console.log(`${colors.green.bold('✓ Markdown documents:')} ${files.length} in ${out} ${colors.dim(`(${files.length - 1} slices)`)}`);
+    });
+}
+
+// ============================================================================
+// report
+// ============================================================================
+
+function exportReportCommand(): Command {
+  return new Command('report')
+    .description('Export the print report (timeline, then every slice) as a single HTML page; print it to PDF from the browser')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .action(async (file: string, options: { output?: string }) => {
+      const model = await readModel(file);
+      const siteDir = getBundledSitePath();
+      if (!siteDir) {
+        console.error(colors.red('Error:') + ' Bundled site viewer not found (run `npm run build:site` in a source checkout)');
+        process.exit(1);
+      }
+      // Wireframes and attachments are linked relative to the report
+      const html = renderReportPage(file, model, siteDir, options.output ? dirname(options.output) : '.');
+      await writeOutput(html, options.output, 'Report');
+    });
+}
@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import type { GiraflowModel } from '../../types.js';
+import { lintModel, countDiagnostics } from '../../../shared/model-linter.js';
+import { formatLintReport, LINT_FORMATS, type LintFormat, type LintReportInput } from '../lint-report.js';
+import { colors } from '../colors.js';
+
+interface LintOptions {
+  format: string;
+  output?: string;
+  maxWarnings?: string;
+}
+
+export function lintCommand(): Command {
+  return new Command('lint')
+    .description('Check .giraflow.json models for semantic problems (dangling references, tick issues)')
+    .argument('<files...>', 'Paths to .giraflow.json files')
+    .option('-f, --format <format>', `Output format: ${LINT_FORMATS.join(', ')}`, 'human')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .option('--max-warnings <count>', 'Exit with an error if there are more warnings than this')
+    .action(async (files: string[], options: LintOptions) => {
+      await runLint(files, options);
+    });
+}
+
+async function runLint(files: string[], options: LintOptions): Promise<void> {
+  const format = options.format as LintFormat;
+  if (!LINT_FORMATS.includes(format)) {
+    console.error(colors.red('Error:') + ` Unknown format "${options.format}". Use one of: ${LINT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const maxWarnings = options.maxWarnings !== undefined ? parseInt(options.maxWarnings, 10) : undefined;
+  if (maxWarnings !== undefined && isNaN(maxWarnings)) {
+    console.error(colors.red('Error:') + ` Invalid --max-warnings value: ${options.maxWarnings}`);
+    process.exit(1);
+  }
+
+  const inputs: LintReportInput[] = [];
+  let failed = false;
+
+  for (const file of files) {
+    const filePath = resolve(file);
+    if (!existsSync(filePath)) {
+      console.error(colors.red('Error:') + ` File not found: ${file}`);
+      failed = true;
+      continue;
+    }
+
+    const source = await readFile(filePath, 'utf-8');
+    let model: GiraflowModel;
+    try {
+      model = JSON.parse(source) as GiraflowModel;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(colors.red(`Error parsing JSON in ${file}:`) + ` ${message}`);
+      failed = true;
+      continue;
+    }
+
+    inputs.push({ filePath, source, diagnostics: lintModel(model) });
+  }
+
+  const report = formatLintReport(inputs, format);
+  if (options.output) {
+    await writeFile(options.output, report.replace(/\x1b\[[0-9;]*m/g, ''));
+    console.log(`${colors.green.bold('✓ Report saved to:')} ${options.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+
+  const { errors, warnings } = countDiagnostics(inputs.flatMap((i) => i.diagnostics));
+  if (errors > 0 || (maxWarnings !== undefined && warnings > maxWarnings)) {
+    failed = true;
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
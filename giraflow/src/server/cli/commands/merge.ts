@@ -0,0 +1,64 @@
+import { Command } from 'commander';
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { mergeModelFiles, type MergeResult } from '../model-merge.js';
+import { colors } from '../colors.js';
+
+interface MergeOptions {
+  output?: string;
+}
+
+/**
+ * Three-way merge of a model. Git expects a merge driver to write the result
+ * into %A (ours) and to exit non-zero on conflicts.
+ */
+export function mergeCommand(): Command {
+  return new Command('merge')
+    .description('Three-way merge of a model by element identity (type, name, tick), usable as a git merge driver')
+    .argument('<base>', 'Common ancestor version (%O in a git merge driver)')
+    .argument('<ours>', 'Our version (%A); the result is written here')
+    .argument('<theirs>', 'Their version (%B)')
+    .option('-o, --output <file>', 'Write the result to a file instead of <ours>')
+    .addHelpText('after', `
+Use as git merge driver:
+  git config merge.giraflow.driver "giraflow merge %O %A %B"
+  echo "*.giraflow.json merge=giraflow" >> .gitattributes`)
+    .action(async (base: string, ours: string, theirs: string, options: MergeOptions) => {
+      await runMerge(base, ours, theirs, options);
+    });
+}
+
+async function readSource(file: string): Promise<string> {
+  if (!existsSync(file)) {
+    console.error(colors.red('Error:') + ` File not found: ${file}`);
+    process.exit(1);
+  }
+  return readFile(file, 'utf-8');
+}
+
+async function runMerge(base: string, ours: string, theirs: string, options: MergeOptions): Promise<void> {
+  const [baseSource, ourSource, theirSource] = await Promise.all([base, ours, theirs].map(readSource));
+
+  let result: MergeResult;
+  try {
+    result = mergeModelFiles(baseSource, ourSource, theirSource, { ours: 'ours', theirs: 'theirs' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(colors.red('Error parsing JSON:') + ` ${message}`);
+    process.exit(1);
+  }
+
+  const output = options.output ?? ours;
+  await writeFile(output, result.content);
+
+  if (result.conflicts.length === 0) {
+    console.log(`${colors.green.bold('✓ Merged:')} ${output}`);
+    return;
+  }
+  console.log(`${colors.red.bold(`✗ ${result.conflicts.length} conflict(s) in`)} ${output}`);
+  for (const conflict of result.conflicts) {
+    const side = conflict.ours === undefined ? ' (deleted by us)' : conflict.theirs === undefined ? ' (deleted by them)' : '';
+    console.log(`  ${colors.red('✗')} ${conflict.label}${colors.dim(side)}`);
+  }
+  process.exit(1);
+}
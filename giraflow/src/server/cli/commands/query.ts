@@ -0,0 +1,95 @@
+import { Command } from 'commander';
+import { queryModel, parseQuery, findQueryProblem, type QueryResult } from '../../../shared/model-query.js';
+import { readModel } from '../model-file.js';
+import { colors, getElementStyle } from '../colors.js';
+
+const QUERY_FORMATS = ['human', 'json'] as const;
+type QueryFormat = (typeof QUERY_FORMATS)[number];
+
+interface QueryOptions {
+  format: string;
+  limit?: string;
+}
+
+export function queryCommand(): Command {
+  return new Command('query')
+    .description('Search names, example payloads, scenarios, attachments and wireframes of a model')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .argument('<query...>', 'Search terms and filters (type:, system:, role:, tick:, in:)')
+    .option('-f, --format <format>', `Output format: ${QUERY_FORMATS.join(', ')}`, 'human')
+    .option('-n, --limit <n>', 'Show at most n results')
+    .addHelpText('after', `
+Filters:
+  type:event|state|command|actor   Element type (for scenarios: the slice type)
+  system:<name>                    Events of a system
+  role:<name>                      Actors of a role
+  tick:<n> or tick:<from>..<to>    Elements at a tick or in a range
+  in:name|example|scenario|attachment|wireframe   Where to search
+
+Examples:
+  giraflow query shop.giraflow.json email
+  giraflow query shop.giraflow.json type:event system:Payment
+  giraflow query shop.giraflow.json "system:Inventory System"
+  giraflow query shop.giraflow.json "order id" in:example tick:100..200`)
+    .action(async (file: string, words: string[], options: QueryOptions) => {
+      await runQuery(file, words.map(quoteWord).join(' '), options);
+    });
+}
+
+/**
+ * The shell already split the query: keep a word with spaces together by
+ * quoting it, or its value for a filter ("system:Inventory System")
+ */
+function quoteWord(word: string): string {
+  const unquoted = word.replace(/"/g, '');
+  if (!/\s/.test(unquoted)) return word;
+  const [, key = '', value] = unquoted.match(/^([a-z]+:)?([\s\S]*)$/i)!;
+  return `${key}"${value}"`;
+}
+
+function formatResult(result: QueryResult): string {
+  const { symbol, color } = getElementStyle(result.type);
+  const where = result.kind === 'scenario' ? colors.dim(`scenario #${result.scenarioIndex! + 1}`) : colors.dim(`@${result.tick}`);
+  const match = result.field === 'name' ? '' : `  ${colors.dim(result.field + ':')} ${result.text}`;
+  return `  ${color(symbol)} ${color.bold(result.name)} ${where}${match}\n    ${colors.dim(result.pointer)}`;
+}
+
+async function runQuery(file: string, query: string, options: QueryOptions): Promise<void> {
+  const format = options.format as QueryFormat;
+  if (!QUERY_FORMATS.includes(format)) {
+    console.error(colors.red('Error:') + ` Unknown format "${options.format}". Use one of: ${QUERY_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  const limit = options.limit === undefined ? Infinity : Number(options.limit);
+  if (limit !== Infinity && (!Number.isInteger(limit) || limit < 1)) {
+    console.error(colors.red('Error:') + ` --limit must be a positive integer, got "${options.limit}"`);
+    process.exit(1);
+  }
+
+  const parsed = parseQuery(query);
+  const problem = findQueryProblem(parsed);
+  if (problem) {
+    console.error(colors.red('Error:') + ` ${problem}`);
+    process.exit(1);
+  }
+
+  const model = await readModel(file);
+
+  const results = queryModel(model, parsed);
+  const shown = results.slice(0, limit);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(shown, null, 2));
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(colors.dim(`No results for "${query}"`));
+    return;
+  }
+  for (const result of shown) {
+    console.log(formatResult(result));
+  }
+  const more = results.length > shown.length ? colors.dim(` (showing ${shown.length})`) : '';
+  console.log(`\n${colors.bold(`${results.length} result(s)`)}${more}`);
+}
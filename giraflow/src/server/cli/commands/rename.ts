@@ -0,0 +1,74 @@
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import { renameElement, findRenameProblem, findWireframeRenames, RENAME_TYPES, type RenameType } from '../../../shared/rename.js';
+import { moveWireframes } from '../../wireframes.js';
+import { readModelSource, parseModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+interface RenameOptions {
+  type: string;
+  wireframes?: boolean;
+  output?: string;
+}
+
+export function renameCommand(): Command {
+  return new Command('rename')
+    .description('Rename an event, state, command or actor and update every reference to it')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .argument('<old>', 'Current name')
+    .argument('<new>', 'New name')
+    .requiredOption('-t, --type <type>', `Element type (${RENAME_TYPES.join(', ')})`)
+    .option('--wireframes', 'Also rename the wireframe files named after an actor (not with --output)')
+    .option('-o, --output <file>', 'Write the result to a file instead of updating <file>')
+    .action(async (file: string, oldName: string, newName: string, options: RenameOptions) => {
+      await runRename(file, oldName, newName, options);
+    });
+}
+
+async function runRename(file: string, oldName: string, newName: string, options: RenameOptions): Promise<void> {
+  const type = options.type as RenameType;
+  if (!RENAME_TYPES.includes(type)) {
+    console.error(colors.red('Error:') + ` --type must be one of ${RENAME_TYPES.join(', ')}, got "${options.type}"`);
+    process.exit(1);
+  }
+  // Wireframes live next to the source file, so they are only moved when it is updated in place
+  if (options.wireframes && options.output) {
+    console.error(colors.red('Error:') + ' --wireframes cannot be combined with --output');
+    process.exit(1);
+  }
+
+  const source = await readModelSource(file);
+  const model = parseModel(source, file);
+
+  const problem = findRenameProblem(model, type, oldName, newName);
+  if (problem) {
+    console.error(colors.red('Error:') + ` ${problem}`);
+    process.exit(1);
+  }
+
+  // Move the files first: the model only points at wireframes that were moved
+  const wireframes = options.wireframes
+    ? moveWireframes(file, findWireframeRenames(model, type, oldName, newName))
+    : { moved: [], skipped: [] };
+  const result = renameElement(model, type, oldName, newName, { wireframes: wireframes.moved });
+
+  // Keep the file's indentation and final newline
+  const indent = source.match(/^([ \t]+)"/m)?.[1] ?? '  ';
+  const newline = source.endsWith('\n') ? '\n' : '';
+  const output = options.output ?? file;
+  await writeFile(output, JSON.stringify(result.model, null, indent) + newline);
+
+  for (const change of result.changes) {
+    console.log(`  ${colors.dim(change.pointer)} ${change.before} → ${colors.green(change.after)}`);
+  }
+
+  for (const rename of wireframes.moved) {
+    console.log(`  ${colors.dim('wireframe')} ${rename.from} → ${colors.green(rename.to)}`);
+  }
+  for (const { rename, reason } of wireframes.skipped) {
+    console.log(`  ${colors.yellow('⚠')} wireframe ${rename.from} not renamed: ${reason}`);
+  }
+
+  const details = colors.dim(`(${result.changes.length} references updated)`);
+  console.log(`${colors.green.bold('✓ Renamed:')} ${type} ${oldName} → ${newName} in ${output} ${details}`);
+}
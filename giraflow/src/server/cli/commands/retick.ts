@@ -0,0 +1,54 @@
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import { retickModel, DEFAULT_TICK_STEP } from '../../../shared/retick.js';
+import { readModelSource, parseModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+interface RetickOptions {
+  step: string;
+  start?: string;
+  output?: string;
+}
+
+export function retickCommand(): Command {
+  return new Command('retick')
+    .description('Renumber the timeline ticks with an even step and update the producedBy references')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('-s, --step <n>', 'Distance between two ticks', String(DEFAULT_TICK_STEP))
+    .option('--start <n>', 'Tick of the first element (default: the step)')
+    .option('-o, --output <file>', 'Write the result to a file instead of updating <file>')
+    .action(async (file: string, options: RetickOptions) => {
+      await runRetick(file, options);
+    });
+}
+
+function parsePositiveInt(value: string, option: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    console.error(colors.red('Error:') + ` ${option} must be a positive integer, got "${value}"`);
+    process.exit(1);
+  }
+  return n;
+}
+
+async function runRetick(file: string, options: RetickOptions): Promise<void> {
+  const step = parsePositiveInt(options.step, '--step');
+  const start = options.start === undefined ? step : parsePositiveInt(options.start, '--start');
+
+  const source = await readModelSource(file);
+  const model = parseModel(source, file);
+
+  const result = retickModel(model, step, start);
+
+  // Keep the file's indentation and final newline
+  const indent = source.match(/^([ \t]+)"/m)?.[1] ?? '  ';
+  const newline = source.endsWith('\n') ? '\n' : '';
+  const output = options.output ?? file;
+  await writeFile(output, JSON.stringify(result.model, null, indent) + newline);
+
+  for (const ref of new Set(result.unresolved)) {
+    console.log(`  ${colors.yellow('⚠')} producedBy "${ref}" matches no command, left unchanged`);
+  }
+  const details = colors.dim(`(${result.model.timeline.length} elements, ${result.updatedReferences} producedBy references updated)`);
+  console.log(`${colors.green.bold('✓ Reticked:')} ${output} ${details}`);
+}
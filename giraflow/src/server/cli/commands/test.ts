@@ -0,0 +1,84 @@
+import { Command } from 'commander';
+import { writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { countResults } from '../../../shared/scenario-results.js';
+import {
+  loadProjectionModule,
+  loadDeciderModule,
+  runScenarios,
+  type ScenarioImplementation,
+} from '../scenario-runner.js';
+import { formatTestReport, TEST_FORMATS, type TestFormat } from '../test-report.js';
+import { readModel } from '../model-file.js';
+import { colors } from '../colors.js';
+
+interface TestOptions {
+  projections?: string;
+  decider?: string;
+  format: string;
+  output?: string;
+}
+
+export function testCommand(): Command {
+  return new Command('test')
+    .description('Run the scenarios of a model against your implementation')
+    .argument('<file>', 'Path to .giraflow.json file')
+    .option('--projections <module>', 'JS/TS module exporting a (state, event) => state projection per state view')
+    .option('--decider <module>', 'JS/TS module exporting decide(command, pastEvents) => events | Error')
+    .option('-f, --format <format>', `Output format: ${TEST_FORMATS.join(', ')}`, 'human')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .action(async (file: string, options: TestOptions) => {
+      await runTest(file, options);
+    });
+}
+
+async function loadModule<T>(file: string, load: (file: string) => Promise<T>): Promise<T> {
+  if (!existsSync(file)) {
+    console.error(colors.red('Error:') + ` Module not found: ${file}`);
+    process.exit(1);
+  }
+  try {
+    return await load(file);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(colors.red(`Error loading ${file}:`) + ` ${message}`);
+    process.exit(1);
+  }
+}
+
+async function runTest(file: string, options: TestOptions): Promise<void> {
+  const format = options.format as TestFormat;
+  if (!TEST_FORMATS.includes(format)) {
+    console.error(colors.red('Error:') + ` Unknown format "${options.format}". Use one of: ${TEST_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (!options.projections && !options.decider) {
+    console.error(colors.red('Error:') + ' Nothing to test. Pass --projections <module> and/or --decider <module>');
+    process.exit(1);
+  }
+
+  const model = await readModel(file);
+
+  const implementation: ScenarioImplementation = {};
+  if (options.projections) {
+    implementation.projections = await loadModule(options.projections, loadProjectionModule);
+  }
+  if (options.decider) {
+    implementation.decide = await loadModule(options.decider, loadDeciderModule);
+  }
+
+  const results = await runScenarios(model, implementation);
+  const report = formatTestReport(results, format);
+
+  if (options.output) {
+    await writeFile(options.output, report.replace(/\x1b\[[0-9;]*m/g, ''));
+    console.log(`${colors.green.bold('✓ Report saved to:')} ${options.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+
+  if (countResults(results).failed > 0) {
+    process.exit(1);
+  }
+}
@@ -1,12 +1,13 @@
 import { Command } from 'commander';
-import { readFile, writeFile } from 'fs/promises';
+import { writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { select, confirm } from '@inquirer/prompts';
-import { GiraflowModel, ViewMode, CliOptions } from '../../types.js';
+import { ViewMode, CliOptions } from '../../types.js';
 import { renderTimeline } from '../views/timeline.js';
 import { renderSlice } from '../views/slice.js';
 import { renderTable } from '../views/table.js';
 import { validateAgainstSchema, getBundledSchemaPath, printValidationResult } from '../validation.js';
+import { readModel } from '../model-file.js';
 import { colors } from '../colors.js';
 
 export function viewCommand(): Command {
@@ -24,23 +25,7 @@ export function viewCommand(): Command {
 }
 
 async function runView(filePath: string, options: CliOptions & { validate?: boolean }): Promise<void> {
-  // Check if file exists
-  if (!existsSync(filePath)) {
-    console.error(colors.red('Error:') + ` File not found: ${filePath}`);
-    process.exit(1);
-  }
-
-  // Read the file
-  let model: GiraflowModel;
-
-  try {
-    const json = await readFile(filePath, 'utf-8');
-    model = JSON.parse(json) as GiraflowModel;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error(colors.red('Error parsing JSON:') + ` ${message}`);
-    process.exit(1);
-  }
+  const model = await readModel(filePath);
 
   // Schema validation
   const schemaPath = options.validate ? getBundledSchemaPath() : options.schema;
@@ -0,0 +1,227 @@
+import { isEmptyDiff, type ModelDiff, type SliceChange, type ElementChange, type ExampleChange, type ElementType } from '../../shared/model-diff.js';
+import { colors, getElementStyle } from './colors.js';
+
+export type DiffFormat = 'human' | 'markdown' | 'json';
+
+export const DIFF_FORMATS: DiffFormat[] = ['human', 'markdown', 'json'];
+
+/**
+ * The two compared versions, e.g. file names or "HEAD~1:model.giraflow.json"
+ */
+export interface DiffLabels {
+  before: string;
+  after: string;
+}
+
+const TYPE_LABELS: Record<ElementType, string> = {
+  event: 'Event',
+  state: 'State view',
+  command: 'Command',
+  actor: 'Actor',
+};
+
+const LINK_LABELS: Record<SliceChange['type'], string> = {
+  command: 'produces',
+  state: 'sourced from',
+};
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function summarize(diff: ModelDiff): string {
+  return [
+    `${diff.added.length} added`,
+    `${diff.removed.length} removed`,
+    `${diff.renamed.length} renamed`,
+    `${diff.elements.length} event${diff.elements.length === 1 ? '' : 's'} changed`,
+    `${diff.slices.length} slice${diff.slices.length === 1 ? '' : 's'} changed`,
+  ].join(', ');
+}
+
+// ============================================================================
+// human
+// ============================================================================
+
+function element(type: ElementType, name: string): string {
+  const { symbol, color } = getElementStyle(type);
+  return `${color(symbol)} ${color.bold(name)}`;
+}
+
+function system(name: string): string {
+  return name || '(none)';
+}
+
+function formatExamplesHuman(examples: ExampleChange[]): string[] {
+  const lines: string[] = [];
+  for (const example of examples) {
+    if (example.before === undefined) {
+      lines.push(`      ${colors.green('+ example')} ${formatValue(example.after)}`);
+    } else if (example.after === undefined) {
+      lines.push(`      ${colors.red('- example')} ${formatValue(example.before)}`);
+    } else {
+      lines.push(`      ${colors.yellow('~ example')}`);
+      for (const field of example.fields) {
+        lines.push(`          ${colors.dim(field.pointer || '(root)')} ${formatValue(field.before)} ${colors.dim('→')} ${formatValue(field.after)}`);
+      }
+    }
+  }
+  return lines;
+}
+
+function formatElementHuman(change: ElementChange): string[] {
+  const previous = change.previousName ? colors.dim(` (was ${change.previousName})`) : '';
+  const lines = [`  ${element(change.type, change.name)}${previous}`, ...formatExamplesHuman(change.examples)];
+  for (const name of change.systems.added) lines.push(`      ${colors.green('+ system')} ${system(name)}`);
+  for (const name of change.systems.removed) lines.push(`      ${colors.red('- system')} ${system(name)}`);
+  return lines;
+}
+
+function formatSliceHuman(change: SliceChange): string[] {
+  const previous = change.previousName ? colors.dim(` (was ${change.previousName})`) : '';
+  const lines = [`  ${element(change.type, change.name)}${previous}`, ...formatExamplesHuman(change.examples)];
+
+  const link = LINK_LABELS[change.type];
+  for (const name of change.links.added) lines.push(`      ${colors.green(`+ ${link}`)} ${name}`);
+  for (const name of change.links.removed) lines.push(`      ${colors.red(`- ${link}`)} ${name}`);
+  for (const name of change.scenarios.added) lines.push(`      ${colors.green('+ scenario')} ${name}`);
+  for (const name of change.scenarios.removed) lines.push(`      ${colors.red('- scenario')} ${name}`);
+  for (const name of change.scenarios.changed) lines.push(`      ${colors.yellow('~ scenario')} ${name}`);
+  return lines;
+}
+
+/**
+ * Format a model diff for the terminal
+ */
+export function formatDiffHuman(diff: ModelDiff, labels: DiffLabels): string {
+  const lines = [`${colors.bold('Model diff:')} ${labels.before} ${colors.dim('→')} ${labels.after}`, ''];
+
+  if (isEmptyDiff(diff)) {
+    return lines.join('\n') + colors.green.bold('✓ No semantic changes') + '\n';
+  }
+
+  if (diff.added.length > 0) {
+    lines.push(colors.green.bold('Added'), ...diff.added.map((e) => `  ${colors.green('+')} ${element(e.type, e.name)}`), '');
+  }
+  if (diff.removed.length > 0) {
+    lines.push(colors.red.bold('Removed'), ...diff.removed.map((e) => `  ${colors.red('-')} ${element(e.type, e.name)}`), '');
+  }
+  if (diff.renamed.length > 0) {
+    lines.push(
+      colors.yellow.bold('Renamed'),
+      ...diff.renamed.map((r) => `  ${colors.yellow('~')} ${element(r.type, r.from)} ${colors.dim('→')} ${element(r.type, r.to)}`),
+      ''
+    );
+  }
+  if (diff.elements.length > 0) {
+    lines.push(colors.bold('Changed events'), ...diff.elements.flatMap(formatElementHuman), '');
+  }
+  if (diff.slices.length > 0) {
+    lines.push(colors.bold('Changed slices'), ...diff.slices.flatMap(formatSliceHuman), '');
+  }
+
+  lines.push(summarize(diff));
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// markdown
+// ============================================================================
+
+function code(value: unknown): string {
+  const json = formatValue(value);
+  return json.includes('`') ? `\`\` ${json} \`\`` : `\`${json}\``;
+}
+
+function formatExamplesMarkdown(examples: ExampleChange[]): string[] {
+  const lines: string[] = [];
+  for (const example of examples) {
+    if (example.before === undefined) {
+      lines.push(`- Example added: ${code(example.after)}`);
+    } else if (example.after === undefined) {
+      lines.push(`- Example removed: ${code(example.before)}`);
+    } else {
+      lines.push('- Example changed:');
+      for (const field of example.fields) {
+        lines.push(`  - \`${field.pointer || '(root)'}\`: ${code(field.before)} → ${code(field.after)}`);
+      }
+    }
+  }
+  return lines;
+}
+
+function formatElementMarkdown(change: ElementChange): string[] {
+  const previous = change.previousName ? ` (was ${change.previousName})` : '';
+  const lines = ['', `#### ${TYPE_LABELS[change.type]}: ${change.name}${previous}`, '', ...formatExamplesMarkdown(change.examples)];
+  for (const name of change.systems.added) lines.push(`- System added: ${system(name)}`);
+  for (const name of change.systems.removed) lines.push(`- System removed: ${system(name)}`);
+  return lines;
+}
+
+function formatSliceMarkdown(change: SliceChange): string[] {
+  const previous = change.previousName ? ` (was ${change.previousName})` : '';
+  const lines = ['', `#### ${TYPE_LABELS[change.type]}: ${change.name}${previous}`, '', ...formatExamplesMarkdown(change.examples)];
+
+  const link = LINK_LABELS[change.type];
+  for (const name of change.links.added) lines.push(`- Now ${link} **${name}**`);
+  for (const name of change.links.removed) lines.push(`- No longer ${link} **${name}**`);
+  for (const name of change.scenarios.added) lines.push(`- Scenario added: ${name}`);
+  for (const name of change.scenarios.removed) lines.push(`- Scenario removed: ${name}`);
+  for (const name of change.scenarios.changed) lines.push(`- Scenario changed: ${name}`);
+  return lines;
+}
+
+/**
+ * Format a model diff as Markdown (e.g. for a pull request comment)
+ */
+export function formatDiffMarkdown(diff: ModelDiff, labels: DiffLabels): string {
+  const lines = [`## Model diff: \`${labels.before}\` → \`${labels.after}\``, ''];
+
+  if (isEmptyDiff(diff)) {
+    return lines.join('\n') + 'No semantic changes.\n';
+  }
+
+  lines.push(summarize(diff));
+
+  const table = (heading: string, header: string, rows: string[]) => {
+    if (rows.length > 0) lines.push('', `### ${heading}`, '', header, '|---|---|', ...rows);
+  };
+  table('Added', '| Type | Name |', diff.added.map((e) => `| ${TYPE_LABELS[e.type]} | ${e.name} |`));
+  table('Removed', '| Type | Name |', diff.removed.map((e) => `| ${TYPE_LABELS[e.type]} | ${e.name} |`));
+  table('Renamed', '| Type | Rename |', diff.renamed.map((r) => `| ${TYPE_LABELS[r.type]} | ${r.from} → ${r.to} |`));
+
+  if (diff.elements.length > 0) {
+    lines.push('', '### Changed events', ...diff.elements.flatMap(formatElementMarkdown));
+  }
+  if (diff.slices.length > 0) {
+    lines.push('', '### Changed slices', ...diff.slices.flatMap(formatSliceMarkdown));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// json
+// ============================================================================
+
+/**
+ * Format a model diff as JSON
+ */
+export function formatDiffJson(diff: ModelDiff, labels: DiffLabels): string {
+  return JSON.stringify({ ...labels, ...diff }, null, 2) + '\n';
+}
+
+/**
+ * Format a model diff in the requested output format
+ */
+export function formatDiffReport(diff: ModelDiff, labels: DiffLabels, format: DiffFormat): string {
+  switch (format) {
+    case 'markdown':
+      return formatDiffMarkdown(diff, labels);
+    case 'json':
+      return formatDiffJson(diff, labels);
+    case 'human':
+    default:
+      return formatDiffHuman(diff, labels);
+  }
+}
@@ -0,0 +1,133 @@
+import { relative } from 'path';
+import { pathToFileURL } from 'url';
+import { LINT_RULES, INVALID_MODEL_RULE, countDiagnostics, type LintDiagnostic } from '../../shared/model-linter.js';
+import { indexJsonPointers, locateJsonPointer } from '../../shared/json-pointer.js';
+import { colors } from './colors.js';
+
+export type LintFormat = 'human' | 'json' | 'sarif';
+
+export const LINT_FORMATS: LintFormat[] = ['human', 'json', 'sarif'];
+
+export interface LintReportInput {
+  filePath: string;
+  source: string;
+  diagnostics: LintDiagnostic[];
+}
+
+interface LocatedDiagnostic extends LintDiagnostic {
+  line: number;
+  column: number;
+}
+
+function locateDiagnostics(input: LintReportInput): LocatedDiagnostic[] {
+  const index = indexJsonPointers(input.source);
+  return input.diagnostics.map((d) => {
+    const location = locateJsonPointer(input.source, d.pointer, index);
+    return { ...d, line: location?.line ?? 1, column: location?.column ?? 1 };
+  });
+}
+
+/**
+ * Format diagnostics for the terminal, grouped by file
+ */
+export function formatLintHuman(inputs: LintReportInput[]): string {
+  const lines: string[] = [];
+  const { errors, warnings } = countDiagnostics(inputs.flatMap((i) => i.diagnostics));
+
+  if (errors + warnings === 0) {
+    return colors.green.bold('✓ No problems found') + '\n';
+  }
+
+  for (const input of inputs) {
+    const located = locateDiagnostics(input);
+    if (located.length === 0) continue;
+
+    lines.push(colors.bold(relative(process.cwd(), input.filePath) || input.filePath));
+    const positionWidth = Math.max(...located.map((d) => `${d.line}:${d.column}`.length));
+    for (const d of located) {
+      const position = colors.dim(`${d.line}:${d.column}`.padEnd(positionWidth));
+      const severity = d.severity === 'error' ? colors.red('error  ') : colors.yellow('warning');
+      lines.push(`  ${position}  ${severity}  ${d.message}  ${colors.dim(d.ruleId)}`);
+    }
+    lines.push('');
+  }
+
+  const total = errors + warnings;
+  const summary = `✖ ${total} problem${total === 1 ? '' : 's'} (${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'})`;
+  lines.push(errors > 0 ? colors.red.bold(summary) : colors.yellow.bold(summary));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format diagnostics as plain JSON
+ */
+export function formatLintJson(inputs: LintReportInput[]): string {
+  const files = inputs.map((input) => ({
+    file: input.filePath,
+    ...countDiagnostics(input.diagnostics),
+    diagnostics: locateDiagnostics(input),
+  }));
+  return JSON.stringify(files, null, 2) + '\n';
+}
+
+/**
+ * Format diagnostics as a SARIF 2.1.0 log (for code scanning integrations)
+ */
+export function formatLintSarif(inputs: LintReportInput[]): string {
+  const located = inputs.flatMap((input) => {
+    const uri = relative(process.cwd(), input.filePath) || pathToFileURL(input.filePath).href;
+    return locateDiagnostics(input).map((d) => ({ ...d, uri: uri.split('\\').join('/') }));
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'giraflow',
+            informationUri: 'https://github.com/SBortz/giraflow',
+            rules: [...LINT_RULES, INVALID_MODEL_RULE].map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity },
+            })),
+          },
+        },
+        results: located.map((d) => ({
+          ruleId: d.ruleId,
+          level: d.severity,
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: d.uri },
+                region: { startLine: d.line, startColumn: d.column },
+              },
+              logicalLocations: [{ fullyQualifiedName: d.pointer }],
+            },
+          ],
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+/**
+ * Format diagnostics in the requested output format
+ */
+export function formatLintReport(inputs: LintReportInput[], format: LintFormat): string {
+  switch (format) {
+    case 'json':
+      return formatLintJson(inputs);
+    case 'sarif':
+      return formatLintSarif(inputs);
+    case 'human':
+    default:
+      return formatLintHuman(inputs);
+  }
+}
@@ -0,0 +1,271 @@
+import { posix } from 'path';
+import type {
+  GiraflowModel,
+  Actor,
+  Attachment,
+  EventReference,
+  CommandScenario,
+  StateViewScenario,
+  TimelineScenario,
+} from '../types.js';
+import { getReadViews, formatStatus } from '../../shared/types.js';
+import { buildSliceViewModel, type Slice, type EventRef } from '../../shared/slice-builder.js';
+import { toCommandSteps } from './scenario-runner.js';
+import { toKebabCase, type GeneratedFile } from './codegen.js';
+
+export interface MarkdownOptions {
+  /** Path from the document (or index.md) to the model's asset folder, for wireframes */
+  assetPath: string;
+  /** Path from the document (or index.md) to the folder of the model file, for attachments */
+  modelDirPath: string;
+}
+
+const SLICE_LABELS: Record<Slice['type'], string> = {
+  command: 'Command',
+  state: 'State view',
+};
+
+const SLICE_FOLDERS: Record<Slice['type'], string> = {
+  command: 'commands',
+  state: 'state-views',
+};
+
+// ============================================================================
+// Formatting helpers
+// ============================================================================
+
+/**
+ * Inline code for a JSON value, safe inside a table cell
+ */
+function code(value: unknown): string {
+  const json = JSON.stringify(value).replace(/\|/g, '\\|');
+  return json.includes('`') ? `\`\` ${json} \`\`` : `\`${json}\``;
+}
+
+function cell(text: string): string {
+  return text.replace(/\r?\n/g, '<br>') || ' ';
+}
+
+function eventCell(events: EventReference[]): string {
+  return events.map((e) => (e.data !== undefined ? `${e.event} ${code(e.data)}` : e.event)).join('<br>') || '–';
+}
+
+function formatTicks(ticks: number[]): string {
+  return ticks.map((tick) => `@${tick}`).join(', ');
+}
+
+function eventRefs(refs: EventRef[]): string {
+  return refs.map((ref) => `${ref.name}${ref.system ? ` (${ref.system})` : ''} ${formatTicks(ref.ticks)}`).join(', ');
+}
+
+/**
+ * Actors by name and role with the ticks they appear at
+ */
+function actorLabels(actors: Actor[]): string {
+  const byActor = new Map<string, number[]>();
+  for (const actor of actors) {
+    const label = `${actor.name}${actor.role ? ` (${actor.role})` : ''}`;
+    byActor.set(label, [...(byActor.get(label) ?? []), actor.tick]);
+  }
+  return [...byActor].map(([label, actorTicks]) => `${label} ${formatTicks(actorTicks)}`).join(', ');
+}
+
+/**
+ * Heading anchor as generated by GitHub and most static site generators
+ */
+function toAnchor(heading: string): string {
+  return heading.toLowerCase().replace(/[^\w\- ]/g, '').replace(/ /g, '-');
+}
+
+function sliceHeading(slice: Slice): string {
+  return `${SLICE_LABELS[slice.type]}: ${slice.name}`;
+}
+
+function fileLink(basePath: string, file: string): string {
+  return encodeURI(posix.join(basePath, file));
+}
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+function renderCommandScenario(scenario: CommandScenario | TimelineScenario): string[] {
+  const rows: string[] = [];
+  let given: EventReference[] = [];
+
+  for (const step of toCommandSteps(scenario)) {
+    if (step.type === 'events-only') {
+      given.push(...step.events);
+      continue;
+    }
+    const then = step.fails !== undefined ? `❌ fails: ${cell(step.fails)}` : eventCell(step.produces ?? []);
+    rows.push(`| ${rows.length + 1} | ${eventCell(given)} | ${step.when !== undefined ? code(step.when) : '–'} | ${then} |`);
+    given = [];
+  }
+  if (given.length > 0) {
+    rows.push(`| ${rows.length + 1} | ${eventCell(given)} | – | – |`);
+  }
+
+  return ['| # | Given | When | Then |', '|---|---|---|---|', ...rows];
+}
+
+function renderStateScenario(scenario: StateViewScenario): string[] {
+  const lines: string[] = [];
+  if (scenario.initialState !== undefined) {
+    lines.push(`Initial state: ${code(scenario.initialState)}`, '');
+  }
+  lines.push('| # | Given | Then |', '|---|---|---|');
+  (scenario.steps ?? []).forEach((step, i) => {
+    lines.push(`| ${i + 1} | ${eventCell([step.given])} | ${step.then !== undefined ? code(step.then) : '–'} |`);
+  });
+  return lines;
+}
+
+// ============================================================================
+// Slices
+// ============================================================================
+
+function renderAttachment(attachment: Attachment, modelDirPath: string): string {
+  switch (attachment.type) {
+    case 'link':
+      return attachment.url ? `- [${attachment.label}](${attachment.url})` : `- ${attachment.label}`;
+    case 'image':
+      return attachment.path ? `- ![${attachment.label}](${fileLink(modelDirPath, attachment.path)})` : `- ${attachment.label}`;
+    case 'file':
+      return attachment.path ? `- [${attachment.label}](${fileLink(modelDirPath, attachment.path)})` : `- ${attachment.label}`;
+    case 'note':
+      // Note lines continue the list item, so Markdown in notes (e.g. lists) is kept
+      return [`- **${attachment.label}**`, ...(attachment.content ?? '').split(/\r?\n/).map((line) => `  ${line}`.trimEnd())]
+        .join('\n');
+  }
+}
+
+/**
+ * Distinct examples of a slice by the tick they first appear at
+ */
+function sliceExamples(slice: Slice): { tick: number; example: unknown }[] {
+  const occurrences = slice.type === 'command'
+    ? slice.commandOccurrences.map((occ) => ({ tick: occ.tick, example: occ.command.example }))
+    : slice.stateOccurrences.map((occ) => ({ tick: occ.tick, example: occ.state.example }));
+  const seen = new Set<string>();
+  return occurrences.filter(({ example }) => {
+    if (example === undefined) return false;
+    const key = JSON.stringify(example);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * One slice section: facts, examples, attachments, wireframes and scenarios
+ *
+ * @param level Heading level of the slice title
+ */
+function renderSlice(slice: Slice, actors: Actor[], level: number, options: MarkdownOptions): string[] {
+  const h = (offset: number) => '#'.repeat(level + offset);
+  const related = slice.type === 'command'
+    ? actors.filter((actor) => actor.sendsCommand === slice.name)
+    : actors.filter((actor) => getReadViews(actor).includes(slice.name));
+
+  const facts = [
+    `- **Ticks:** ${formatTicks(slice.ticks)}`,
+    ...(slice.status !== undefined ? [`- **Status:** ${formatStatus(slice.status)}`] : []),
+    ...(slice.type === 'command'
+      ? [
+          `- **Triggered by:** ${actorLabels(related) || '–'}`,
+          `- **Produces:** ${eventRefs(slice.produces) || '–'}`,
+        ]
+      : [
+          `- **Sourced from:** ${eventRefs(slice.sourcedFrom) || '–'}`,
+          `- **Read by:** ${actorLabels(related) || '–'}`,
+        ]),
+  ];
+  const lines = [`${h(0)} ${sliceHeading(slice)}`, '', ...facts];
+
+  const examples = sliceExamples(slice);
+  if (examples.length > 0) {
+    lines.push('', `${h(1)} Examples`);
+    for (const { tick, example } of examples) {
+      lines.push('', `@${tick}:`, '', '```json', JSON.stringify(example, null, 2), '```');
+    }
+  }
+
+  if (slice.attachments.length > 0) {
+    lines.push('', `${h(1)} Attachments`, '', ...slice.attachments.map((a) => renderAttachment(a, options.modelDirPath)));
+  }
+
+  const wireframes = [...new Set(related.flatMap((actor) => actor.wireframes ?? []))];
+  if (wireframes.length > 0) {
+    lines.push('', `${h(1)} Wireframes`, '', ...wireframes.map((wf) => `- [${wf}](${fileLink(options.assetPath, wf)})`));
+  }
+
+  if (slice.scenarios.length > 0) {
+    lines.push('', `${h(1)} Scenarios`);
+    for (const scenario of slice.scenarios) {
+      const body = slice.type === 'command'
+        ? renderCommandScenario(scenario as CommandScenario | TimelineScenario)
+        : renderStateScenario(scenario as StateViewScenario);
+      lines.push('', `${h(2)} ${scenario.name}`, '', ...body);
+    }
+  }
+
+  return lines;
+}
+
+function renderHeader(model: GiraflowModel): string[] {
+  return [
+    `# ${model.name}`,
+    ...(model.description ? ['', model.description] : []),
+    ...(model.version ? ['', `**Version:** ${model.version}`] : []),
+  ];
+}
+
+/**
+ * Contents list in slice order, the order of the document's sections
+ */
+function renderContents(slices: Slice[], link: (slice: Slice) => string): string[] {
+  if (slices.length === 0) return [];
+  return ['', '## Contents', '', ...slices.map((slice) => `- [${sliceHeading(slice)}](${link(slice)})`)];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Render the whole model as one Markdown specification document
+ */
+export function renderMarkdownDocument(model: GiraflowModel, options: MarkdownOptions): string {
+  const { slices, actors } = buildSliceViewModel(model);
+  const lines = [
+    ...renderHeader(model),
+    ...renderContents(slices, (slice) => `#${toAnchor(sliceHeading(slice))}`),
+  ];
+  for (const slice of slices) {
+    lines.push('', ...renderSlice(slice, actors, 2, options));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the model as index.md plus one document per slice
+ * (commands/<name>.md, state-views/<name>.md)
+ */
+export function renderMarkdownFiles(model: GiraflowModel, options: MarkdownOptions): GeneratedFile[] {
+  const { slices, actors } = buildSliceViewModel(model);
+  const pathOf = (slice: Slice) => `${SLICE_FOLDERS[slice.type]}/${toKebabCase(slice.name)}.md`;
+  // Slice documents are one folder below index.md
+  const sliceOptions: MarkdownOptions = {
+    assetPath: posix.join('..', options.assetPath),
+    modelDirPath: posix.join('..', options.modelDirPath),
+  };
+
+  return [
+    { path: 'index.md', content: [...renderHeader(model), ...renderContents(slices, pathOf)].join('\n') + '\n' },
+    ...slices.map((slice) => ({
+      path: pathOf(slice),
+      content: renderSlice(slice, actors, 1, sliceOptions).join('\n') + '\n',
+    })),
+  ];
+}
@@ -0,0 +1,49 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import type { GiraflowModel } from '../types.js';
+import { findShapeProblems } from '../../shared/model-linter.js';
+import { colors } from './colors.js';
+
+/**
+ * Parse a model and check that it has the shape the commands rely on.
+ * Exits with the parse error or the shape problems otherwise.
+ */
+export function parseModel(source: string, label: string): GiraflowModel {
+  let model: GiraflowModel;
+  try {
+    model = JSON.parse(source) as GiraflowModel;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(colors.red(`Error parsing JSON in ${label}:`) + ` ${message}`);
+    process.exit(1);
+  }
+
+  const shapeProblems = findShapeProblems(model);
+  if (shapeProblems.length > 0) {
+    console.error(colors.red('Error:') + ` ${label} is not a valid model:`);
+    for (const problem of shapeProblems) {
+      console.error(`  ${colors.red('•')} ${problem.pointer || '(root)'}: ${problem.message}`);
+    }
+    process.exit(1);
+  }
+  return model;
+}
+
+/**
+ * Read a model file, exiting if it is missing or not a valid model
+ */
+export async function readModel(file: string): Promise<GiraflowModel> {
+  return parseModel(await readModelSource(file), file);
+}
+
+/**
+ * Read the text of a model file, exiting if it is missing. For commands that
+ * write the model back and keep its formatting.
+ */
+export async function readModelSource(file: string): Promise<string> {
+  if (!existsSync(file)) {
+    console.error(colors.red('Error:') + ` File not found: ${file}`);
+    process.exit(1);
+  }
+  return readFile(file, 'utf-8');
+}
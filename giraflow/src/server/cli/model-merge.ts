@@ -0,0 +1,241 @@
+/**
+ * Model Merge
+ *
+ * Three-way merge of .giraflow.json files, used by `giraflow merge` as a git
+ * merge driver. Instead of lines, it merges by identity:
+ * - timeline elements by type, name and tick
+ * - specifications by type and name, their scenarios by name
+ * - the other top-level fields by key
+ *
+ * Independent edits (different elements, or different fields of one element)
+ * are merged. When both sides change the same element differently, conflict
+ * markers are written around that element only.
+ */
+
+import type { GiraflowModel, TimelineElement, Specification } from '../types.js';
+import { deepEqual } from '../../shared/scenario-results.js';
+
+export interface MergeConflict {
+  /** What conflicts, e.g. "command PlaceOrder @12" */
+  label: string;
+  /** Our version, undefined if we deleted it */
+  ours?: unknown;
+  /** Their version, undefined if they deleted it */
+  theirs?: unknown;
+}
+
+export interface MergeResult {
+  /** Merged file content, with conflict markers if there are conflicts */
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Names of the two sides in the conflict markers
+ */
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+type Merged = { value: unknown } | null;
+
+/** Stands in for a conflict while serializing; replaced by the conflict markers */
+const PLACEHOLDER = '__giraflow_merge_conflict_';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Three-way merge of a value. Objects are merged key by key; anything else
+ * merges only if at most one side changed it. Null on conflict.
+ */
+function mergeValues(base: unknown, ours: unknown, theirs: unknown): Merged {
+  if (deepEqual(ours, theirs) || deepEqual(base, theirs)) return { value: ours };
+  if (deepEqual(base, ours)) return { value: theirs };
+  if (!isPlainObject(ours) || !isPlainObject(theirs)) return null;
+
+  const baseObject = isPlainObject(base) ? base : {};
+  const result: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(ours), ...Object.keys(theirs)])) {
+    const merged = mergeValues(baseObject[key], ours[key], theirs[key]);
+    if (!merged) return null;
+    if (merged.value !== undefined) result[key] = merged.value;
+  }
+  return { value: result };
+}
+
+function addConflict(conflicts: MergeConflict[], label: string, ours: unknown, theirs: unknown): string {
+  conflicts.push({ label, ours, theirs });
+  return `${PLACEHOLDER}${conflicts.length - 1}__`;
+}
+
+/**
+ * Items by key; repeated keys get a #n suffix so no item is lost
+ */
+function byKey<T>(items: T[], keyOf: (item: T) => string): Map<string, T> {
+  const result = new Map<string, T>();
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const count = counts.get(key) ?? 0;
+    counts.set(key, count + 1);
+    result.set(count === 0 ? key : `${key}#${count}`, item);
+  }
+  return result;
+}
+
+/**
+ * Merge lists of items matched by key. Items keep our order; items only
+ * they added follow their nearest predecessor in their list that we kept.
+ */
+function mergeList<T extends object>(
+  conflicts: MergeConflict[],
+  lists: { base: T[]; ours: T[]; theirs: T[] },
+  keyOf: (item: T) => string,
+  labelOf: (item: T) => string,
+  mergeItem: (base: T | undefined, ours: T, theirs: T) => Merged
+): unknown[] {
+  const baseItems = byKey(lists.base, keyOf);
+  const ourItems = byKey(lists.ours, keyOf);
+  const theirItems = byKey(lists.theirs, keyOf);
+
+  const order = [...ourItems.keys()];
+  const theirKeys = [...theirItems.keys()];
+  theirKeys.forEach((key, i) => {
+    if (ourItems.has(key)) return;
+    // The nearest predecessor we still have, in case we deleted the one right before it
+    const previous = theirKeys.slice(0, i).reverse().find((k) => order.includes(k));
+    order.splice(previous === undefined ? 0 : order.indexOf(previous) + 1, 0, key);
+  });
+
+  const result: unknown[] = [];
+  for (const key of order) {
+    const baseItem = baseItems.get(key);
+    const ourItem = ourItems.get(key);
+    const theirItem = theirItems.get(key);
+
+    if (ourItem && theirItem) {
+      const merged = mergeItem(baseItem, ourItem, theirItem);
+      result.push(merged ? merged.value : addConflict(conflicts, labelOf(ourItem), ourItem, theirItem));
+    } else if (ourItem || theirItem) {
+      // Added on one side, or deleted on the other: deleting an edited item conflicts
+      const item = (ourItem ?? theirItem)!;
+      if (!baseItem) {
+        result.push(item);
+      } else if (!deepEqual(baseItem, item)) {
+        result.push(addConflict(conflicts, labelOf(item), ourItem, theirItem));
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Specifications changed on both sides are merged scenario by scenario
+ */
+function mergeSpecification(
+  conflicts: MergeConflict[],
+  base: Specification | undefined,
+  ours: Specification,
+  theirs: Specification
+): Merged {
+  const simple = mergeValues(base, ours, theirs);
+  if (simple) return simple;
+
+  const { scenarios: baseScenarios = [], ...baseRest } = base ?? { scenarios: [] };
+  const { scenarios: ourScenarios, ...ourRest } = ours;
+  const { scenarios: theirScenarios, ...theirRest } = theirs;
+  const rest = mergeValues(baseRest, ourRest, theirRest);
+  if (!rest) return null;
+
+  const scenarios = mergeList<{ name: string }>(
+    conflicts,
+    { base: baseScenarios, ours: ourScenarios, theirs: theirScenarios },
+    (scenario) => scenario.name,
+    (scenario) => `scenario "${scenario.name}" of ${ours.name}`,
+    mergeValues
+  );
+  return { value: { ...(rest.value as object), scenarios } };
+}
+
+function mergeModel(
+  conflicts: MergeConflict[],
+  base: Partial<GiraflowModel>,
+  ours: GiraflowModel,
+  theirs: GiraflowModel
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]) as Set<keyof GiraflowModel>;
+
+  for (const key of keys) {
+    if (key === 'timeline') {
+      result.timeline = mergeList<TimelineElement>(
+        conflicts,
+        { base: base.timeline ?? [], ours: ours.timeline ?? [], theirs: theirs.timeline ?? [] },
+        (el) => `${el.type}:${el.name}:${el.tick}`,
+        (el) => `${el.type} ${el.name} @${el.tick}`,
+        mergeValues
+      );
+    } else if (key === 'specifications') {
+      result.specifications = mergeList<Specification>(
+        conflicts,
+        { base: base.specifications ?? [], ours: ours.specifications ?? [], theirs: theirs.specifications ?? [] },
+        (spec) => `${spec.type}:${spec.name}`,
+        (spec) => `specification ${spec.name} (${spec.type})`,
+        (baseSpec, ourSpec, theirSpec) => mergeSpecification(conflicts, baseSpec, ourSpec, theirSpec)
+      );
+    } else {
+      const merged = mergeValues(base[key], ours[key], theirs[key]);
+      if (!merged) {
+        result[key] = addConflict(conflicts, `"${key}"`, ours[key], theirs[key]);
+      } else if (merged.value !== undefined) {
+        result[key] = merged.value;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialize the merged model; each conflict placeholder becomes both versions
+ * between conflict markers, indented like the value it replaces.
+ */
+function render(model: unknown, conflicts: MergeConflict[], labels: MergeLabels, indent: string): string {
+  const pattern = new RegExp(`^(\\s*)("(?:[^"\\\\]|\\\\.)*": )?"${PLACEHOLDER}(\\d+)__"(,?)$`);
+  return JSON.stringify(model, null, indent)
+    .split('\n')
+    .flatMap((line) => {
+      const match = line.match(pattern);
+      if (!match) return [line];
+      const [, space, key = '', index, comma] = match;
+      const conflict = conflicts[Number(index)];
+      const side = (value: unknown) =>
+        value === undefined
+          ? []
+          : `${space}${key}${JSON.stringify(value, null, indent)}${comma}`.split('\n').map((l, i) => (i === 0 ? l : space + l));
+      return [`<<<<<<< ${labels.ours}`, ...side(conflict.ours), '=======', ...side(conflict.theirs), `>>>>>>> ${labels.theirs}`];
+    })
+    .join('\n');
+}
+
+/**
+ * Three-way merge of a model file.
+ *
+ * @param base Common ancestor (an empty string if there is none)
+ * @param ours Our version; its indentation and final newline are kept
+ * @param theirs Their version
+ */
+export function mergeModelFiles(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const model = mergeModel(
+    conflicts,
+    base.trim() ? JSON.parse(base) : {},
+    JSON.parse(ours) as GiraflowModel,
+    JSON.parse(theirs) as GiraflowModel
+  );
+  const indent = ours.match(/^([ \t]+)"/m)?.[1] ?? '  ';
+  const newline = ours.endsWith('\n') ? '\n' : '';
+  return { content: render(model, conflicts, labels, indent) + newline, conflicts };
+}
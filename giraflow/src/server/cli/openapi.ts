@@ -0,0 +1,191 @@
+import type { GiraflowModel, Actor, CommandScenario, TimelineScenario } from '../types.js';
+import { getReadViews } from '../../shared/types.js';
+import { buildSliceViewModel, type Slice } from '../../shared/slice-builder.js';
+import { buildMessageSchemas, type JsonSchema } from '../../shared/message-schemas.js';
+import { toJsonPointer } from '../../shared/json-pointer.js';
+import { toCommandSteps } from './scenario-runner.js';
+import { toKebabCase } from './codegen.js';
+
+type OpenApiDocument = Record<string, unknown>;
+
+const JSON_CONTENT = 'application/json';
+
+function ref(...tokens: string[]): { $ref: string } {
+  return { $ref: '#' + toJsonPointer(...tokens) };
+}
+
+function byName(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => byName(a, b)));
+}
+
+/**
+ * A path or operation id, numbered if an earlier slice already took it
+ * ("Add Todo" and "AddTodo" both become /commands/add-todo)
+ */
+function uniqueName(base: string, taken: Set<string>, separator: string): string {
+  let name = base;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${base}${separator}${n}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * The characters code generators accept in an operation id
+ */
+function toOperationId(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, '');
+}
+
+/**
+ * Named examples for a media type, one per tick with a distinct example value
+ */
+function examplesOf(slice: Slice): Record<string, { value: unknown }> | undefined {
+  const occurrences = slice.type === 'command'
+    ? slice.commandOccurrences.map((occ) => ({ tick: occ.tick, example: occ.command.example }))
+    : slice.stateOccurrences.map((occ) => ({ tick: occ.tick, example: occ.state.example }));
+
+  const seen = new Set<string>();
+  const examples: Record<string, { value: unknown }> = {};
+  for (const { tick, example } of occurrences) {
+    if (example === undefined) continue;
+    const key = JSON.stringify(example);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    examples[`tick-${tick}`] = { value: example };
+  }
+  return Object.keys(examples).length > 0 ? examples : undefined;
+}
+
+/**
+ * Distinct failure messages of a command's scenarios (spec scenarios and Timeline Scenario)
+ */
+function failuresOf(slice: Slice): string[] {
+  const failures = new Set<string>();
+  for (const scenario of slice.scenarios) {
+    for (const step of toCommandSteps(scenario as CommandScenario | TimelineScenario)) {
+      if (step.type === 'command' && step.fails !== undefined) failures.add(step.fails);
+    }
+  }
+  return [...failures].sort(byName);
+}
+
+/**
+ * Actor roles per "kind:name": roles of actors sending a command or reading a state view
+ */
+function rolesBySlice(actors: Actor[]): Map<string, Set<string>> {
+  const roles = new Map<string, Set<string>>();
+  const add = (key: string, role: string) => roles.set(key, (roles.get(key) ?? new Set()).add(role));
+  for (const actor of actors) {
+    if (!actor.role) continue;
+    if (actor.sendsCommand) add(`command:${actor.sendsCommand}`, actor.role);
+    for (const view of getReadViews(actor)) add(`state:${view}`, actor.role);
+  }
+  return roles;
+}
+
+/**
+ * Build an OpenAPI 3.1 document for the command and read side of a model.
+ *
+ * - POST /commands/<name> per command, request body from the command schema,
+ *   a 422 response documenting the scenario `fails` messages
+ * - GET /state-views/<name> per state view, response from the state schema
+ * - Operations are tagged with the roles of the actors using them
+ *
+ * Paths, schemas and tags are sorted by name so the output is stable.
+ */
+export function buildOpenApiDocument(model: GiraflowModel): OpenApiDocument {
+  const viewModel = buildSliceViewModel(model);
+  const roles = rolesBySlice(viewModel.actors);
+
+  // Component names: the message name, with a suffix where a command and a state view share it
+  const schemas = buildMessageSchemas(model).filter((s) => s.kind !== 'event');
+  const names = schemas.map((s) => s.name);
+  const componentName = (kind: 'command' | 'state', name: string) =>
+    names.filter((n) => n === name).length > 1 ? `${name}${kind === 'command' ? 'Command' : 'State'}` : name;
+
+  const components: Record<string, JsonSchema> = {};
+  for (const schema of schemas) {
+    const component = { ...schema.schema };
+    delete component.$schema;
+    components[componentName(schema.kind as 'command' | 'state', schema.name)] = component;
+  }
+
+  const paths: Record<string, unknown> = {};
+  const usedTags = new Set<string>();
+  const usedPaths = new Set<string>();
+  const usedOperationIds = new Set<string>();
+
+  for (const slice of viewModel.slices) {
+    const name = componentName(slice.type, slice.name);
+    const tags = [...(roles.get(`${slice.type}:${slice.name}`) ?? [])].sort(byName);
+    tags.forEach((tag) => usedTags.add(tag));
+    const examples = examplesOf(slice);
+    const media = { schema: ref('components', 'schemas', name), ...(examples ? { examples } : {}) };
+
+    if (slice.type === 'command') {
+      const failures = failuresOf(slice);
+      const produces = slice.produces.map((e) => e.name);
+      paths[uniqueName(`/commands/${toKebabCase(slice.name)}`, usedPaths, '-')] = {
+        post: {
+          operationId: uniqueName(toOperationId(slice.name), usedOperationIds, ''),
+          summary: `Send command "${slice.name}"`,
+          ...(tags.length > 0 ? { tags } : {}),
+          requestBody: { required: true, content: { [JSON_CONTENT]: media } },
+          responses: {
+            '200': {
+              description: produces.length > 0 ? `Accepted, produces ${produces.join(', ')}` : 'Accepted',
+            },
+            ...(failures.length > 0
+              ? {
+                  '422': {
+                    description: 'Rejected',
+                    content: {
+                      [JSON_CONTENT]: {
+                        schema: {
+                          type: 'object',
+                          properties: { error: { type: 'string', enum: failures } },
+                          required: ['error'],
+                        },
+                        examples: Object.fromEntries(
+                          failures.map((message, i) => [`failure-${i + 1}`, { summary: message, value: { error: message } }])
+                        ),
+                      },
+                    },
+                  },
+                }
+              : {}),
+          },
+        },
+      };
+    } else {
+      paths[uniqueName(`/state-views/${toKebabCase(slice.name)}`, usedPaths, '-')] = {
+        get: {
+          operationId: uniqueName(`get${toOperationId(slice.name)}`, usedOperationIds, ''),
+          summary: `Read state view "${slice.name}"`,
+          ...(tags.length > 0 ? { tags } : {}),
+          responses: {
+            '200': { description: `Current state of "${slice.name}"`, content: { [JSON_CONTENT]: media } },
+          },
+        },
+      };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: model.name,
+      version: model.version ?? '1.0.0',
+      ...(model.description ? { description: model.description } : {}),
+    },
+    ...(usedTags.size > 0 ? { tags: [...usedTags].sort(byName).map((name) => ({ name })) } : {}),
+    paths: sortKeys(paths),
+    components: { schemas: sortKeys(components) },
+  };
+}
@@ -0,0 +1,287 @@
+import { extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type {
+  GiraflowModel,
+  EventReference,
+  StateViewScenario,
+  CommandScenario,
+  TimelineScenario,
+} from '../types.js';
+import { buildSliceViewModel, type Slice } from '../../shared/slice-builder.js';
+import {
+  diffValues,
+  summarizeSteps,
+  type ScenarioResult,
+  type StepResult,
+} from '../../shared/scenario-results.js';
+
+/**
+ * Projection for one state view: folds an event into the current state.
+ * Events are passed in the model's EventReference shape: { event, data }.
+ */
+export type Projection = (state: unknown, event: EventReference) => unknown;
+
+export type ProjectionModule = Record<string, Projection>;
+
+/**
+ * Decider for all commands: returns the produced events, or an Error
+ * (returned or thrown) when the command is rejected.
+ */
+export type Decide = (
+  command: { name: string; data?: unknown },
+  pastEvents: EventReference[]
+) => EventReference[] | Error | Promise<EventReference[] | Error>;
+
+export interface ScenarioImplementation {
+  projections?: ProjectionModule;
+  decide?: Decide;
+}
+
+/**
+ * Command scenario step, normalized from spec steps and Timeline Scenario rows
+ */
+export type CommandStep =
+  | { type: 'events-only'; events: EventReference[] }
+  | { type: 'command'; when: unknown; produces?: EventReference[]; fails?: string };
+
+const TS_EXTENSIONS = ['.ts', '.mts', '.cts', '.tsx'];
+
+/**
+ * Import a user-supplied JS or TS module. TypeScript files are loaded through tsx.
+ */
+export async function importUserModule(file: string): Promise<Record<string, unknown>> {
+  const filePath = resolve(file);
+  if (TS_EXTENSIONS.includes(extname(filePath))) {
+    const { tsImport } = await import('tsx/esm/api');
+    return (await tsImport(pathToFileURL(filePath).href, import.meta.url)) as Record<string, unknown>;
+  }
+  return (await import(pathToFileURL(filePath).href)) as Record<string, unknown>;
+}
+
+/**
+ * Collect the functions exported by a module, by export name. A default
+ * export object contributes its function properties as well.
+ */
+function collectFunctions<T>(module: Record<string, unknown>): Record<string, T> {
+  const functions: Record<string, T> = {};
+  const sources = [module.default, module];
+  for (const source of sources) {
+    if (source === null || typeof source !== 'object') continue;
+    for (const [name, value] of Object.entries(source)) {
+      if (typeof value === 'function' && name !== 'default') {
+        functions[name] = value as T;
+      }
+    }
+  }
+  return functions;
+}
+
+/**
+ * Load a projection module exporting one `(state, event) => state` function
+ * per state view name.
+ */
+export async function loadProjectionModule(file: string): Promise<ProjectionModule> {
+  return collectFunctions<Projection>(await importUserModule(file));
+}
+
+/**
+ * Load a decider module exporting `decide(command, pastEvents)`, either as a
+ * named export or as the default export.
+ */
+export async function loadDeciderModule(file: string): Promise<Decide> {
+  const module = await importUserModule(file);
+  const decide = collectFunctions<Decide>(module).decide
+    ?? (typeof module.default === 'function' ? module.default as Decide : undefined);
+  if (!decide) {
+    throw new Error('Module does not export a "decide" function');
+  }
+  return decide;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Replay a state view scenario through its projection.
+ *
+ * Steps without an expected state are replayed but not asserted. After a
+ * failed step the replay continues from the expected state, so every step
+ * is checked on its own.
+ */
+async function runStateScenario(projection: Projection, scenario: StateViewScenario): Promise<StepResult[]> {
+  const steps: StepResult[] = [];
+  let state = structuredClone(scenario.initialState);
+
+  for (const [index, step] of (scenario.steps ?? []).entries()) {
+    let actual: unknown;
+    try {
+      actual = await projection(state, structuredClone(step.given));
+    } catch (error) {
+      steps.push({ index, status: 'failed', message: `Projection threw: ${errorMessage(error)}` });
+      state = structuredClone(step.then);
+      continue;
+    }
+
+    if (step.then === undefined) {
+      steps.push({ index, status: 'skipped', message: 'No expected state', actual });
+      state = actual;
+      continue;
+    }
+
+    const differences = diffValues(step.then, actual);
+    if (differences.length === 0) {
+      steps.push({ index, status: 'passed' });
+      state = actual;
+    } else {
+      steps.push({
+        index,
+        status: 'failed',
+        message: `State after "${step.given.event}" does not match`,
+        expected: step.then,
+        actual,
+        differences,
+      });
+      state = structuredClone(step.then);
+    }
+  }
+
+  return steps;
+}
+
+export function toCommandSteps(scenario: CommandScenario | TimelineScenario): CommandStep[] {
+  if ('rows' in scenario) {
+    return scenario.rows.map((row) =>
+      row.type === 'events-only'
+        ? { type: 'events-only', events: row.events ?? [] }
+        : { type: 'command', when: row.command?.data, produces: row.producedEvents ?? [], fails: row.fails }
+    );
+  }
+  return (scenario.steps ?? []).map((step) =>
+    step.type === 'events-only'
+      ? { type: 'events-only', events: step.events ?? [] }
+      : { type: 'command', when: step.when, produces: step.produces, fails: step.fails }
+  );
+}
+
+/**
+ * Only compare event data where the scenario specifies it.
+ */
+function comparableEvents(expected: EventReference[], actual: EventReference[]): EventReference[] {
+  return actual.map((event, i) => ({
+    event: event?.event,
+    ...(expected[i]?.data !== undefined ? { data: event?.data } : {}),
+  }));
+}
+
+/**
+ * Drive a command scenario through the decider.
+ *
+ * Context events and the expected events of each command step are appended
+ * to the past events, so every command step is checked on its own.
+ */
+async function runCommandScenario(decide: Decide, commandName: string, scenario: CommandScenario | TimelineScenario): Promise<StepResult[]> {
+  const steps: StepResult[] = [];
+  const pastEvents: EventReference[] = [];
+
+  for (const [index, step] of toCommandSteps(scenario).entries()) {
+    if (step.type === 'events-only') {
+      pastEvents.push(...step.events);
+      continue;
+    }
+
+    let outcome: EventReference[] | Error;
+    try {
+      outcome = await decide({ name: commandName, data: structuredClone(step.when) }, structuredClone(pastEvents));
+    } catch (error) {
+      outcome = error instanceof Error ? error : new Error(String(error));
+    }
+
+    if (step.fails !== undefined) {
+      if (!(outcome instanceof Error)) {
+        steps.push({ index, status: 'failed', message: `Expected failure "${step.fails}", but events were produced`, expected: step.fails, actual: outcome });
+      } else if (!outcome.message.includes(step.fails)) {
+        steps.push({ index, status: 'failed', message: `Expected failure "${step.fails}", got "${outcome.message}"`, expected: step.fails, actual: outcome.message });
+      } else {
+        steps.push({ index, status: 'passed' });
+      }
+      continue;
+    }
+
+    const expected = (step.produces ?? []).map(({ event, data }) => ({ event, ...(data !== undefined ? { data } : {}) }));
+    pastEvents.push(...expected);
+
+    if (outcome instanceof Error) {
+      steps.push({ index, status: 'failed', message: `Command was rejected: ${outcome.message}`, expected, actual: outcome.message });
+      continue;
+    }
+    if (!Array.isArray(outcome)) {
+      steps.push({ index, status: 'failed', message: 'decide() must return an array of events or an Error', expected, actual: outcome });
+      continue;
+    }
+
+    const actual = comparableEvents(expected, outcome);
+    const differences = diffValues(expected, actual);
+    steps.push(
+      differences.length === 0
+        ? { index, status: 'passed' }
+        : { index, status: 'failed', message: 'Produced events do not match', expected, actual: outcome, differences }
+    );
+  }
+
+  return steps;
+}
+
+function skippedScenarios(slice: Slice, message: string): ScenarioResult[] {
+  return slice.scenarios.map((scenario, scenarioIndex) => ({
+    sliceType: slice.type,
+    sliceName: slice.name,
+    scenario: scenario.name,
+    scenarioIndex,
+    status: 'skipped',
+    message,
+    steps: [],
+    durationMs: 0,
+  }));
+}
+
+/**
+ * Run the scenarios of a model (including the synthesized Timeline Scenarios)
+ * against the given implementation. State views are checked against the
+ * projections, commands against the decider; slice types without an
+ * implementation are left out.
+ */
+export async function runScenarios(model: GiraflowModel, implementation: ScenarioImplementation): Promise<ScenarioResult[]> {
+  const { projections, decide } = implementation;
+  const results: ScenarioResult[] = [];
+
+  for (const slice of buildSliceViewModel(model).slices) {
+    if (slice.type === 'state' && !projections) continue;
+    if (slice.type === 'command' && !decide) continue;
+
+    const projection = projections?.[slice.name];
+    if (slice.type === 'state' && !projection) {
+      results.push(...skippedScenarios(slice, `No projection exported for "${slice.name}"`));
+      continue;
+    }
+
+    for (const [scenarioIndex, scenario] of slice.scenarios.entries()) {
+      const started = performance.now();
+      const steps = slice.type === 'state'
+        ? await runStateScenario(projection!, scenario as StateViewScenario)
+        : await runCommandScenario(decide!, slice.name, scenario as CommandScenario | TimelineScenario);
+      results.push({
+        sliceType: slice.type,
+        sliceName: slice.name,
+        scenario: scenario.name,
+        scenarioIndex,
+        status: summarizeSteps(steps),
+        ...(steps.length === 0 ? { message: 'Scenario has no steps to check' } : {}),
+        steps,
+        durationMs: performance.now() - started,
+      });
+    }
+  }
+
+  return results;
+}
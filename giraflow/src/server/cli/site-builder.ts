@@ -0,0 +1,211 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, copyFileSync } from 'fs';
+import { join, dirname, basename, relative, resolve, sep, posix } from 'path';
+import { fileURLToPath } from 'url';
+import type { GiraflowModel } from '../types.js';
+import { buildSliceViewModel, exportSlicesToJson } from '../../shared/slice-builder.js';
+import { lintModel } from '../../shared/model-linter.js';
+import { serializeSiteData, SITE_DATA_ELEMENT_ID, SITE_ATTACHMENTS_FOLDER, type SiteData } from '../../shared/site-data.js';
+import type { TestResultsFile } from '../../shared/scenario-results.js';
+import { loadTestResults } from '../test-results.js';
+
+const SITE_TEMPLATE = 'index-static.html';
+
+/** Files of the viewer itself, next to index.html */
+const APP_FILES = ['logo.svg', 'favicon.svg', 'lib/wired-elements.js'];
+
+/** Absolute URL of the wireframe library, as used by wireframes served by the live server */
+const WIRED_ELEMENTS_URL = '/lib/wired-elements.js';
+
+/**
+ * Get the path to the bundled static viewer (built with `vite build --mode static`)
+ */
+export function getBundledSitePath(): string | null {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+
+  // Check multiple locations: dist/site/ (production) and the package's dist/ (development with tsx)
+  const candidates = [
+    join(__dirname, '..', '..', '..', 'site'),                 // dist/server/server/cli/ → dist/site/
+    join(__dirname, '..', '..', '..', 'dist', 'site'),         // src/server/cli/ → dist/site/
+  ];
+
+  for (const candidate of candidates) {
+    if (existsSync(join(candidate, SITE_TEMPLATE))) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Inline the viewer's script and stylesheet, so the page works from file://
+ * (browsers block module scripts and crossorigin stylesheets loaded from disk).
+ */
+function inlineAssets(html: string, siteDir: string): string {
+  const read = (url: string) => readFileSync(join(siteDir, url), 'utf-8');
+  return html
+    .replace(/<link rel="modulepreload"[^>]*>\s*/g, '')
+    .replace(/<script type="module" crossorigin src="([^"]+)"><\/script>/g, (_, src: string) =>
+      `<script type="module">${read(src).replace(/<\/script/gi, '<\\/script')}</script>`
+    )
+    .replace(/<link rel="stylesheet" crossorigin href="([^"]+)">/g, (_, href: string) =>
+      `<style>${read(href)}</style>`
+    );
+}
+
+function copyDirRecursive(src: string, dest: string, onFile: (relativePath: string) => void): void {
+  for (const entry of readdirSync(src, { withFileTypes: true })) {
+    const srcPath = join(src, entry.name);
+    const destPath = join(dest, entry.name);
+    if (entry.isDirectory()) {
+      mkdirSync(destPath, { recursive: true });
+      copyDirRecursive(srcPath, destPath, (path) => onFile(posix.join(entry.name, path)));
+    } else {
+      copyFileSync(srcPath, destPath);
+      onFile(entry.name);
+    }
+  }
+}
+
+/**
+ * Scenario test results from the asset folder; unreadable results are left out
+ */
+function readTestResults(giraflowDir: string): TestResultsFile | null {
+  if (!existsSync(giraflowDir)) return null;
+  try {
+    return loadTestResults(giraflowDir);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`Warning: Could not read test results: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * The viewer page with its script and styles inlined and the site data baked in
+ */
+function renderPage(siteDir: string, data: SiteData, title: string): string {
+  return inlineAssets(readFileSync(join(siteDir, SITE_TEMPLATE), 'utf-8'), siteDir)
+    .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeHtml(title)}</title>`)
+    .replace('<div id="app"></div>', (app) =>
+      `${app}\n    <script id="${SITE_DATA_ELEMENT_ID}" type="application/json">${serializeSiteData(data)}</script>`
+    );
+}
+
+function toUrlPath(from: string, to: string): string {
+  return relative(from, to).split(sep).join('/') || '.';
+}
+
+export interface SiteBuildResult {
+  /** Files copied from the asset folder (wireframes and their assets) */
+  assetFiles: number;
+  attachments: number;
+  /** Referenced wireframes and attachments that were not found */
+  missing: string[];
+}
+
+/**
+ * Build a static site for a model: index.html with the viewer and the model
+ * baked in, the model file, slices.json, the asset folder's files (wireframes)
+ * and the attachments.
+ *
+ * @param siteDir Bundled static viewer (getBundledSitePath)
+ */
+export function buildSite(file: string, model: GiraflowModel, siteDir: string, outDir: string): SiteBuildResult {
+  const giraflowDir = file.replace(/\.json$/i, '');
+  const modelDir = dirname(resolve(file));
+  const slices = buildSliceViewModel(model);
+  const missing: string[] = [];
+  let assetFiles = 0;
+  let attachments = 0;
+
+  mkdirSync(outDir, { recursive: true });
+
+  // Asset folder first, so the generated files below win on name clashes.
+  // Wireframe paths are relative to the asset folder, so it becomes the site root.
+  if (existsSync(giraflowDir)) {
+    copyDirRecursive(giraflowDir, outDir, (relativePath) => {
+      assetFiles++;
+      if (!relativePath.endsWith('.html')) return;
+      // Point wireframes at the site's copy of the wireframe library
+      const target = join(outDir, relativePath);
+      const libUrl = posix.relative(posix.dirname(relativePath), WIRED_ELEMENTS_URL.slice(1));
+      const html = readFileSync(target, 'utf-8');
+      if (html.includes(WIRED_ELEMENTS_URL)) {
+        writeFileSync(target, html.split(`"${WIRED_ELEMENTS_URL}"`).join(`"${libUrl}"`));
+      }
+    });
+  }
+
+  for (const actor of slices.actors) {
+    for (const wireframe of actor.wireframes ?? []) {
+      if (!existsSync(join(giraflowDir, wireframe))) missing.push(wireframe);
+    }
+  }
+
+  // Attachments are relative to the model file; only files inside its folder are copied
+  const attachmentPaths = new Set(
+    slices.slices.flatMap((slice) => slice.attachments.map((a) => a.path).filter((p): p is string => !!p))
+  );
+  for (const attachmentPath of attachmentPaths) {
+    const source = resolve(modelDir, attachmentPath);
+    if (!source.startsWith(modelDir + sep) || !existsSync(source)) {
+      missing.push(attachmentPath);
+      continue;
+    }
+    const target = join(outDir, SITE_ATTACHMENTS_FOLDER, relative(modelDir, source));
+    mkdirSync(dirname(target), { recursive: true });
+    copyFileSync(source, target);
+    attachments++;
+  }
+
+  for (const appFile of APP_FILES) {
+    const source = join(siteDir, appFile);
+    if (!existsSync(source)) continue;
+    mkdirSync(dirname(join(outDir, appFile)), { recursive: true });
+    copyFileSync(source, join(outDir, appFile));
+  }
+
+  const data: SiteData = {
+    model,
+    slices,
+    diagnostics: lintModel(model),
+    testResults: readTestResults(giraflowDir),
+    watchedFile: basename(file),
+    assetPath: '.',
+    attachmentPath: SITE_ATTACHMENTS_FOLDER,
+  };
+
+  writeFileSync(join(outDir, 'index.html'), renderPage(siteDir, data, `${model.name} – Giraflow`));
+  writeFileSync(join(outDir, basename(file)), JSON.stringify(model, null, 2) + '\n');
+  writeFileSync(join(outDir, 'slices.json'), exportSlicesToJson(slices.slices));
+
+  return { assetFiles, attachments, missing };
+}
+
+/**
+ * Render the print report as a single page (the viewer showing only the report
+ * view). Wireframes and attachments are linked relative to the page's folder.
+ *
+ * @param siteDir Bundled static viewer (getBundledSitePath)
+ * @param pageDir Folder the page is written to
+ */
+export function renderReportPage(file: string, model: GiraflowModel, siteDir: string, pageDir: string): string {
+  const giraflowDir = file.replace(/\.json$/i, '');
+  const data: SiteData = {
+    model,
+    slices: buildSliceViewModel(model),
+    // Problems are for modelers, not for the report's readers
+    diagnostics: [],
+    testResults: readTestResults(giraflowDir),
+    watchedFile: basename(file),
+    assetPath: toUrlPath(pageDir, giraflowDir),
+    attachmentPath: toUrlPath(pageDir, dirname(file)),
+    view: 'report',
+  };
+  return renderPage(siteDir, data, `${model.name} – Report`);
+}
@@ -0,0 +1,167 @@
+import {
+  countResults,
+  type ScenarioResult,
+  type StepResult,
+  type TestResultsFile,
+} from '../../shared/scenario-results.js';
+import { colors, getElementStyle } from './colors.js';
+
+export type TestFormat = 'human' | 'json' | 'junit';
+
+export const TEST_FORMATS: TestFormat[] = ['human', 'json', 'junit'];
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function formatStepFailure(step: StepResult, indent: string): string[] {
+  const lines = [`${indent}${colors.red(`step ${step.index + 1}:`)} ${step.message ?? 'failed'}`];
+  for (const difference of step.differences ?? []) {
+    const location = colors.dim(difference.pointer || '(root)');
+    lines.push(`${indent}  ${location}`);
+    lines.push(`${indent}    ${colors.green('- expected')} ${formatValue(difference.expected)}`);
+    lines.push(`${indent}    ${colors.red('+ actual  ')} ${formatValue(difference.actual)}`);
+  }
+  return lines;
+}
+
+/**
+ * Format scenario results for the terminal, grouped by slice
+ */
+export function formatTestHuman(results: ScenarioResult[]): string {
+  const lines: string[] = [];
+  let currentSlice = '';
+
+  for (const result of results) {
+    const sliceKey = `${result.sliceType}:${result.sliceName}`;
+    if (sliceKey !== currentSlice) {
+      if (currentSlice) lines.push('');
+      const { symbol, color } = getElementStyle(result.sliceType);
+      lines.push(`${color(symbol)} ${color.bold(result.sliceName)}`);
+      currentSlice = sliceKey;
+    }
+
+    const duration = colors.dim(`(${Math.round(result.durationMs)} ms)`);
+    switch (result.status) {
+      case 'passed':
+        lines.push(`  ${colors.green('✓')} ${result.scenario} ${duration}`);
+        break;
+      case 'failed':
+        lines.push(`  ${colors.red('✗')} ${result.scenario} ${duration}`);
+        for (const step of result.steps.filter((s) => s.status === 'failed')) {
+          lines.push(...formatStepFailure(step, '      '));
+        }
+        break;
+      case 'skipped':
+        lines.push(`  ${colors.dim('○')} ${colors.dim(result.scenario)} ${colors.dim(`– ${result.message ?? 'skipped'}`)}`);
+        break;
+    }
+  }
+
+  const { passed, failed, skipped } = countResults(results);
+  const summary = [
+    colors.green(`${passed} passed`),
+    failed > 0 ? colors.red.bold(`${failed} failed`) : `${failed} failed`,
+    colors.dim(`${skipped} skipped`),
+  ].join(', ');
+  lines.push('');
+  lines.push(`Scenarios: ${summary}`);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format scenario results as a Giraflow test results file (read by the web UI)
+ */
+export function formatTestJson(results: ScenarioResult[]): string {
+  const file: TestResultsFile = {
+    generatedAt: new Date().toISOString(),
+    results,
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function formatFailureDetails(result: ScenarioResult): string {
+  return result.steps
+    .filter((s) => s.status === 'failed')
+    .flatMap((step) => [
+      `step ${step.index + 1}: ${step.message ?? 'failed'}`,
+      ...(step.differences ?? []).flatMap((d) => [
+        `  ${d.pointer || '(root)'}`,
+        `    - expected ${formatValue(d.expected)}`,
+        `    + actual   ${formatValue(d.actual)}`,
+      ]),
+    ])
+    .join('\n');
+}
+
+/**
+ * Format scenario results as JUnit XML, one test suite per slice
+ */
+export function formatTestJunit(results: ScenarioResult[], suiteName = 'giraflow'): string {
+  const suites = new Map<string, ScenarioResult[]>();
+  for (const result of results) {
+    const key = `${result.sliceType}:${result.sliceName}`;
+    suites.set(key, [...(suites.get(key) ?? []), result]);
+  }
+
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const totals = countResults(results);
+  const totalTime = results.reduce((sum, r) => sum + r.durationMs, 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" tests="${results.length}" failures="${totals.failed}" skipped="${totals.skipped}" time="${seconds(totalTime)}">`,
+  ];
+
+  for (const [key, suiteResults] of suites) {
+    const counts = countResults(suiteResults);
+    const time = suiteResults.reduce((sum, r) => sum + r.durationMs, 0);
+    lines.push(`  <testsuite name="${escapeXml(key)}" tests="${suiteResults.length}" failures="${counts.failed}" skipped="${counts.skipped}" time="${seconds(time)}">`);
+
+    for (const result of suiteResults) {
+      const attributes = `classname="${escapeXml(key)}" name="${escapeXml(result.scenario)}" time="${seconds(result.durationMs)}"`;
+      if (result.status === 'passed') {
+        lines.push(`    <testcase ${attributes}/>`);
+      } else if (result.status === 'skipped') {
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push(`      <skipped message="${escapeXml(result.message ?? 'skipped')}"/>`);
+        lines.push('    </testcase>');
+      } else {
+        const firstFailure = result.steps.find((s) => s.status === 'failed');
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push(`      <failure message="${escapeXml(firstFailure?.message ?? 'failed')}">${escapeXml(formatFailureDetails(result))}</failure>`);
+        lines.push('    </testcase>');
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format scenario results in the requested format
+ */
+export function formatTestReport(results: ScenarioResult[], format: TestFormat): string {
+  switch (format) {
+    case 'json':
+      return formatTestJson(results);
+    case 'junit':
+      return formatTestJunit(results);
+    case 'human':
+    default:
+      return formatTestHuman(results);
+  }
+}
@@ -5,6 +5,7 @@ import { existsSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { colors } from './colors.js';
+import { refineSchemaErrors } from '../../shared/schema-errors.js';
 
 /**
  * Get the path to the bundled schema (copied during build)
@@ -93,8 +94,8 @@ export async function validateAgainstSchema(
       return { valid: true, errors: [] };
     }
 
-    const errors = (validate.errors || []).map((err: { instancePath?: string; message?: string }) => {
-      const path = err.instancePath || '(root)';
+    const errors = refineSchemaErrors(validate.errors || [], json, schema).map((err) => {
+      const path = err.pointer || '(root)';
       return `${path}: ${err.message}`;
     });
 
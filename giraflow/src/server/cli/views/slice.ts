@@ -8,7 +8,10 @@ import {
   StateView,
   Command,
   Actor,
+  SliceStatus,
   isActor,
+  getReadViews,
+  formatStatus,
 } from '../../types.js';
 import { colors, getElementStyle, box } from '../colors.js';
 import { renderHeader } from './timeline.js';
@@ -18,6 +21,7 @@ interface DeduplicatedSlice {
   type: 'state' | 'command';
   ticks: number[];
   sourcedFrom: string[];
+  status?: SliceStatus;
   attachments: { type: string; label: string; path?: string; url?: string; content?: string }[];
   scenarios: Array<{ name: string }>;
 }
@@ -43,6 +47,7 @@ function buildDeduplicatedSlices(model: GiraflowModel): DeduplicatedSlice[] {
     }
     const slice = seen.get(key)!;
     slice.ticks.push(el.tick);
+    if (slice.status === undefined && el.status !== undefined) slice.status = el.status;
 
     if (isStateView(el)) {
       for (const s of el.sourcedFrom) {
@@ -117,6 +122,10 @@ function renderDeduplicatedSlicePanel(
   content.push(`${color.bold(slice.name)}`);
   content.push('');
 
+  if (slice.status !== undefined) {
+    content.push(`${colors.dim('status:')} ${formatStatus(slice.status)}`);
+  }
+
   if (slice.type === 'state') {
     // Events this view sourced from
     if (slice.sourcedFrom.length > 0) {
@@ -129,7 +138,7 @@ function renderDeduplicatedSlicePanel(
     }
 
     // Actors that read this view
-    const readingActors = actors.filter(a => a.readsView === slice.name);
+    const readingActors = actors.filter(a => getReadViews(a).includes(slice.name));
     if (readingActors.length > 0) {
       if (content.length > 2) content.push('');
       content.push(colors.dim('readBy:'));
@@ -146,7 +155,7 @@ function renderDeduplicatedSlicePanel(
       content.push(colors.dim('triggeredBy:'));
       for (const actor of triggeringActors) {
         content.push(
-          `  ${colors.actor('○')} ${colors.actor(actor.name)} ${colors.dim(`@${actor.tick}`)} ← ${colors.state(actor.readsView)}`
+          `  ${colors.actor('○')} ${colors.actor(actor.name)} ${colors.dim(`@${actor.tick}`)} ← ${getReadViews(actor).map(v => colors.state(v)).join(colors.dim(', '))}`
         );
       }
     }
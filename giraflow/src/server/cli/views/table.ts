@@ -9,6 +9,7 @@ import {
   StateView,
   Command,
   Actor,
+  getReadViews,
 } from '../../types.js';
 import { colors, rule } from '../colors.js';
 import { renderHeader, renderSummary } from './timeline.js';
@@ -149,7 +150,7 @@ export function renderTable(model: GiraflowModel): void {
     const distinctActors = new Map<string, { views: Set<string>; commands: Set<string> }>();
     for (const actor of actors) {
       const existing = distinctActors.get(actor.name) || { views: new Set(), commands: new Set() };
-      existing.views.add(actor.readsView);
+      getReadViews(actor).forEach(v => existing.views.add(v));
       existing.commands.add(actor.sendsCommand);
       distinctActors.set(actor.name, existing);
     }
@@ -212,7 +213,7 @@ function renderDataFlowTree(
   const actorData = new Map<string, { views: Set<string>; commands: Set<string> }>();
   for (const actor of actors) {
     const existing = actorData.get(actor.name) || { views: new Set(), commands: new Set() };
-    existing.views.add(actor.readsView);
+    getReadViews(actor).forEach(v => existing.views.add(v));
     existing.commands.add(actor.sendsCommand);
     actorData.set(actor.name, existing);
   }
@@ -8,6 +8,8 @@ import {
   Event,
   StateView,
   Actor,
+  getReadViews,
+  formatStatus,
 } from '../../types.js';
 import { colors, formatElement, getElementStyle, rule } from '../colors.js';
 
@@ -116,9 +118,17 @@ function renderTimelineElement(
       const eventNames = sv.sourcedFrom.map(e => colors.event(e)).join(colors.dim(', '));
       console.log(`${detailPrefix}${colors.dim('sourcedFrom:')} ${eventNames}`);
     }
+    if (sv.status !== undefined) {
+      console.log(`${detailPrefix}${colors.dim('status:')} ${formatStatus(sv.status)}`);
+    }
+  } else if (isCommand(element)) {
+    if (element.status !== undefined) {
+      console.log(`${detailPrefix}${colors.dim('status:')} ${formatStatus(element.status)}`);
+    }
   } else if (isActor(element)) {
     const actor = element as Actor;
-    console.log(`${detailPrefix}${colors.dim('readsView:')} ${colors.state(actor.readsView)}`);
+    const viewNames = getReadViews(actor).map(v => colors.state(v)).join(colors.dim(', '));
+    console.log(`${detailPrefix}${colors.dim('readsView:')} ${viewNames}`);
     console.log(`${detailPrefix}${colors.dim('sendsCommand:')} ${colors.command(actor.sendsCommand)}`);
   }
 
@@ -0,0 +1,24 @@
+import { execFileSync } from 'node:child_process';
+import * as path from 'node:path';
+
+/**
+ * Read a file as of a git revision, from the repository the file is in.
+ * Throws with git's message if the revision or the file does not exist.
+ */
+export function readFileAtRevision(file: string, rev: string): string {
+  if (rev.startsWith('-')) {
+    throw new Error(`Invalid revision: ${rev}`);
+  }
+  const filePath = path.resolve(file);
+  try {
+    return execFileSync('git', ['show', `${rev}:./${path.basename(filePath)}`], {
+      cwd: path.dirname(filePath),
+      encoding: 'utf-8',
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (error instanceof Error ? error.message : String(error)));
+  }
+}
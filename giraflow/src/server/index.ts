@@ -12,6 +12,16 @@ import { copySchemaCommand } from './cli/commands/copy-schema.js';
 import { copyAiInstructionsCommand } from './cli/commands/copy-ai-instructions.js';
 import { copyExampleCommand } from './cli/commands/copy-example.js';
 import { generateSlicesCommand } from './cli/commands/generate-slices.js';
+import { lintCommand } from './cli/commands/lint.js';
+import { testCommand } from './cli/commands/test.js';
+import { codegenCommand } from './cli/commands/codegen.js';
+import { exportCommand } from './cli/commands/export.js';
+import { buildSiteCommand } from './cli/commands/build-site.js';
+import { diffCommand } from './cli/commands/diff.js';
+import { mergeCommand } from './cli/commands/merge.js';
+import { retickCommand } from './cli/commands/retick.js';
+import { renameCommand } from './cli/commands/rename.js';
+import { queryCommand } from './cli/commands/query.js';
 import { colors } from './cli/colors.js';
 
 program
@@ -35,6 +45,16 @@ program.addCommand(copySchemaCommand());
 program.addCommand(copyAiInstructionsCommand());
 program.addCommand(copyExampleCommand());
 program.addCommand(generateSlicesCommand());
+program.addCommand(lintCommand());
+program.addCommand(testCommand());
+program.addCommand(codegenCommand());
+program.addCommand(exportCommand());
+program.addCommand(buildSiteCommand());
+program.addCommand(diffCommand());
+program.addCommand(mergeCommand());
+program.addCommand(retickCommand());
+program.addCommand(renameCommand());
+program.addCommand(queryCommand());
 
 program.addHelpText('after', `
 ${colors.dim('Commands:')}
@@ -45,12 +65,41 @@ ${colors.dim('Commands:')}
   ${colors.cyan('copy-ai-instructions')}    Copy AI design guide to current directory
   ${colors.cyan('copy-example')}            Copy an example project to current directory
   ${colors.cyan('generate-slices')}         Generate slices.json from model
+  ${colors.cyan('lint')}                    Check model for broken references and tick issues
+  ${colors.cyan('test')}                    Run model scenarios against your implementation
+  ${colors.cyan('codegen')}                 Generate types for events, commands and state views
+  ${colors.cyan('export')}                  Export the model (schemas, asyncapi, openapi, diagram, svg, markdown, report)
+  ${colors.cyan('build-site')}              Build a static site of the model viewer
+  ${colors.cyan('diff')}                    Show semantic changes between two model versions
+  ${colors.cyan('merge')}                   Three-way merge of a model (git merge driver)
+  ${colors.cyan('retick')}                  Renumber ticks and update producedBy references
+  ${colors.cyan('rename')}                  Rename an element and update every reference to it
+  ${colors.cyan('query')}                   Search names, payloads, scenarios, attachments and wireframes
 
 ${colors.dim('Examples:')}
   ${colors.white('giraflow')} ${colors.cyan('model.giraflow.json')}           ${colors.dim('# Start live preview server')}
   ${colors.white('giraflow')} ${colors.cyan('view model.giraflow.json -v table')}   ${colors.dim('# Show table view')}
   ${colors.white('giraflow')} ${colors.cyan('create')}                        ${colors.dim('# Interactive model wizard')}
   ${colors.white('giraflow')} ${colors.cyan('copy-example')}                  ${colors.dim('# Copy an example project')}
+  ${colors.white('giraflow')} ${colors.cyan('lint model.giraflow.json -f sarif')} ${colors.dim('# Lint model, SARIF output')}
+  ${colors.white('giraflow')} ${colors.cyan('test model.giraflow.json --projections src/projections.ts')} ${colors.dim('# Check projections against scenarios')}
+  ${colors.white('giraflow')} ${colors.cyan('test model.giraflow.json --decider src/decide.ts -f json -o model.giraflow/test-results.json')} ${colors.dim('# Show results in the web UI')}
+  ${colors.white('giraflow')} ${colors.cyan('codegen model.giraflow.json --lang ts -o src/generated')} ${colors.dim('# Generate TypeScript types')}
+  ${colors.white('giraflow')} ${colors.cyan('codegen model.giraflow.json --tests --test-runner jest')} ${colors.dim('# Also scaffold scenario tests')}
+  ${colors.white('giraflow')} ${colors.cyan('export schemas model.giraflow.json')} ${colors.dim('# JSON Schema per message')}
+  ${colors.white('giraflow')} ${colors.cyan('export asyncapi model.giraflow.json -o asyncapi.json')} ${colors.dim('# AsyncAPI 3 for the events')}
+  ${colors.white('giraflow')} ${colors.cyan('export openapi model.giraflow.json -o openapi.json')} ${colors.dim('# OpenAPI 3.1 for commands and views')}
+  ${colors.white('giraflow')} ${colors.cyan('export diagram model.giraflow.json -f plantuml')} ${colors.dim('# Timeline as PlantUML (or mermaid, mermaid-sequence)')}
+  ${colors.white('giraflow')} ${colors.cyan('export svg model.giraflow.json -o timeline.svg')} ${colors.dim('# Timeline as a standalone SVG')}
+  ${colors.white('giraflow')} ${colors.cyan('export markdown model.giraflow.json --per-slice -o docs/spec')} ${colors.dim('# Markdown spec, one file per slice')}
+  ${colors.white('giraflow')} ${colors.cyan('export report model.giraflow.json -o report.html')} ${colors.dim('# Print report, save as PDF from the browser')}
+  ${colors.white('giraflow')} ${colors.cyan('build-site model.giraflow.json --out site/')} ${colors.dim('# Static site for any web host')}
+  ${colors.white('giraflow')} ${colors.cyan('diff model.giraflow.json --rev HEAD~1')} ${colors.dim('# What changed since the last commit')}
+  ${colors.white('giraflow')} ${colors.cyan('diff old.giraflow.json new.giraflow.json -f markdown')} ${colors.dim('# Diff as Markdown for a PR comment')}
+  ${colors.white('giraflow')} ${colors.cyan('merge %O %A %B')}                ${colors.dim('# As git merge driver, see "giraflow merge --help"')}
+  ${colors.white('giraflow')} ${colors.cyan('retick model.giraflow.json --step 10')} ${colors.dim('# Space ticks by 10 again to make room')}
+  ${colors.white('giraflow')} ${colors.cyan('rename model.giraflow.json --type event OrderPlaced OrderSubmitted')} ${colors.dim('# Rename an event everywhere')}
+  ${colors.white('giraflow')} ${colors.cyan('query model.giraflow.json type:event system:Payment')} ${colors.dim('# Search the model')}
 
 ${colors.dim('Symbol Legend:')}
   ${colors.event('● Event')}   ${colors.state('◆ State View')}   ${colors.command('▶ Command')}   ${colors.actor('○ Actor')}
@@ -98,6 +147,7 @@ async function startServer(file?: string, options?: { port: string; open: boolea
       filePath,
       onModelChange: () => server.triggerReload(),
       onWireframeChange: () => server.triggerWireframeReload(),
+      onTestResultsChange: () => server.triggerTestResultsReload(),
     });
   }
 
@@ -0,0 +1,47 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  MESSAGE_SCHEMA_FOLDERS,
+  formatMessageSchema,
+  type MessageSchema,
+} from '../shared/message-schemas.js';
+
+/** Schema folder inside the asset folder: hotel.giraflow/schemas/ */
+export const SCHEMAS_FOLDER = 'schemas';
+
+export interface SchemaWriteResult {
+  written: number;
+  removed: number;
+}
+
+/**
+ * Write message schemas to a folder. Unchanged files are left alone, schema
+ * files of messages that no longer exist are removed.
+ */
+export function writeMessageSchemas(schemaDir: string, schemas: MessageSchema[]): SchemaWriteResult {
+  const result: SchemaWriteResult = { written: 0, removed: 0 };
+  const expected = new Set(schemas.map((s) => path.join(schemaDir, s.path)));
+
+  for (const schema of schemas) {
+    const target = path.join(schemaDir, schema.path);
+    const content = formatMessageSchema(schema);
+    if (fs.existsSync(target) && fs.readFileSync(target, 'utf-8') === content) continue;
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+    result.written++;
+  }
+
+  for (const folder of Object.values(MESSAGE_SCHEMA_FOLDERS)) {
+    const folderPath = path.join(schemaDir, folder);
+    if (!fs.existsSync(folderPath)) continue;
+    for (const file of fs.readdirSync(folderPath)) {
+      const filePath = path.join(folderPath, file);
+      if (file.endsWith('.schema.json') && !expected.has(filePath)) {
+        fs.unlinkSync(filePath);
+        result.removed++;
+      }
+    }
+  }
+
+  return result;
+}
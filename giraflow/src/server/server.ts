@@ -4,6 +4,15 @@ import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { GiraflowModel } from './types.js';
 import { buildSliceViewModel, exportSlicesToJson, type SliceViewModel } from '../shared/slice-builder.js';
+import { lintModel, findShapeProblems, countDiagnostics, type LintDiagnostic, type DiagnosticsMessage } from '../shared/model-linter.js';
+import type { TestResultsFile, TestResultsMessage } from '../shared/scenario-results.js';
+import { loadTestResults } from './test-results.js';
+import { buildMessageSchemas } from '../shared/message-schemas.js';
+import { writeMessageSchemas, SCHEMAS_FOLDER } from './message-schemas.js';
+import { renderTimelineSvg } from '../shared/svg-timeline.js';
+import { readFileAtRevision } from './git.js';
+import { renameElement, findRenameProblem, findWireframeRenames, RENAME_TYPES } from '../shared/rename.js';
+import { moveWireframes } from './wireframes.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -31,6 +40,7 @@ export function createServer(options: ServerOptions): {
   stop: () => void;
   triggerReload: () => void;
   triggerWireframeReload: () => void;
+  triggerTestResultsReload: () => void;
   setFilePath: (newPath: string) => void;
   getFilePath: () => string | null;
 } {
@@ -41,6 +51,8 @@ export function createServer(options: ServerOptions): {
   let currentModel: GiraflowModel | null = null;
   let currentSlices: SliceViewModel | null = null;
   let currentError: string | null = null;
+  let currentDiagnostics: LintDiagnostic[] = [];
+  let currentTestResults: TestResultsFile | null = null;
 
   // Path to built client assets
   // In dist: server is at dist/server/server/, client is at dist/client/
@@ -58,27 +70,60 @@ export function createServer(options: ServerOptions): {
     fs.writeFileSync(slicesPath, exportSlicesToJson(currentSlices.slices));
   }
 
+  function writeSchemaFiles(): void {
+    if (!currentModel || !filePath) return;
+    // Asset folder: hotel.giraflow.json → hotel.giraflow/schemas/events/RoomBooked.schema.json
+    const schemaDir = path.join(filePath.replace(/\.json$/i, ''), SCHEMAS_FOLDER);
+    writeMessageSchemas(schemaDir, buildMessageSchemas(currentModel));
+  }
+
   function loadModel(): void {
     if (!filePath) {
       currentModel = null;
       currentSlices = null;
       currentError = null;
+      currentDiagnostics = [];
+      currentTestResults = null;
       return;
     }
 
+    // Diagnostics of the file as read; stays empty if it does not parse
+    let diagnostics: LintDiagnostic[] = [];
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
-      currentModel = JSON.parse(content) as GiraflowModel;
-      currentError = null;
-
-      // Build slices and auto-export
-      if (currentModel) {
+      const model = JSON.parse(content) as GiraflowModel;
+      diagnostics = lintModel(model);
+      currentDiagnostics = diagnostics;
+      const shapeProblems = findShapeProblems(model);
+      if (shapeProblems.length > 0) {
+        // Keep the old model for display, the problems panel lists the problems
+        currentError = `Invalid model: ${shapeProblems[0].pointer || '(root)'}: ${shapeProblems[0].message}`;
+      } else {
+        currentModel = model;
+        currentError = null;
+
+        // Build slices and auto-export
         currentSlices = buildSliceViewModel(currentModel);
         writeSlicesJson();
+        writeSchemaFiles();
       }
     } catch (err) {
       currentError = err instanceof Error ? err.message : String(err);
-      // Keep old model for display, just show error
+      // Keep old model for display, just show error; the old diagnostics no longer apply
+      currentDiagnostics = diagnostics;
+    }
+
+    loadTestResultsFile();
+  }
+
+  function loadTestResultsFile(): void {
+    if (!filePath) return;
+    // Asset folder: hotel.giraflow.json → hotel.giraflow/test-results.json
+    try {
+      currentTestResults = loadTestResults(filePath.replace(/\.json$/i, ''));
+    } catch (err) {
+      currentTestResults = null;
+      console.log(`  ⚠ Could not read test results: ${err instanceof Error ? err.message : String(err)}`);
     }
   }
 
@@ -92,10 +137,39 @@ export function createServer(options: ServerOptions): {
     loadModel();
   }
 
-  function triggerReload(): void {
-    loadModel();
+  function diagnosticsEvent(): string {
+    const message: DiagnosticsMessage = {
+      watchedFile: filePath ? path.basename(filePath) : '',
+      diagnostics: currentDiagnostics,
+    };
+    return `event: diagnostics\ndata: ${JSON.stringify(message)}\n\n`;
+  }
+
+  function testResultsEvent(): string {
+    const message: TestResultsMessage = {
+      watchedFile: filePath ? path.basename(filePath) : '',
+      testResults: currentTestResults,
+    };
+    return `event: test-results\ndata: ${JSON.stringify(message)}\n\n`;
+  }
+
+  function notifyReload(): void {
+    const diagnostics = diagnosticsEvent();
+    const testResults = testResultsEvent();
     for (const client of clients) {
       client.write('data: reload\n\n');
+      client.write(diagnostics);
+      client.write(testResults);
+    }
+  }
+
+  function triggerReload(): void {
+    loadModel();
+    notifyReload();
+
+    const { errors, warnings } = countDiagnostics(currentDiagnostics);
+    if (errors + warnings > 0) {
+      console.log(`  ⚠ ${errors} error(s), ${warnings} warning(s) – run "giraflow lint" for details`);
     }
   }
 
@@ -105,6 +179,14 @@ export function createServer(options: ServerOptions): {
     }
   }
 
+  function triggerTestResultsReload(): void {
+    loadTestResultsFile();
+    const testResults = testResultsEvent();
+    for (const client of clients) {
+      client.write(testResults);
+    }
+  }
+
   function serveStaticFile(res: http.ServerResponse, filePath: string): boolean {
     try {
       const ext = path.extname(filePath);
@@ -132,6 +214,10 @@ export function createServer(options: ServerOptions): {
 
       clients.add(res);
 
+      // Send current diagnostics and test results right away so new clients are in sync
+      res.write(diagnosticsEvent());
+      res.write(testResultsEvent());
+
       // Keep-alive ping
       const interval = setInterval(() => {
         res.write(': ping\n\n');
@@ -186,6 +272,8 @@ export function createServer(options: ServerOptions): {
         JSON.stringify({
           model: currentModel,
           error: currentError,
+          diagnostics: currentDiagnostics,
+          testResults: currentTestResults,
           watchedFile: filePath ? path.basename(filePath) : '',
           availableFiles: findGiraflowFiles(),
         })
@@ -231,9 +319,7 @@ export function createServer(options: ServerOptions): {
           res.end(JSON.stringify({ success: true }));
 
           // Notify clients to reload
-          for (const client of clients) {
-            client.write('data: reload\n\n');
-          }
+          notifyReload();
         } catch (err) {
           res.writeHead(400, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: err instanceof Error ? err.message : 'Invalid request' }));
@@ -279,6 +365,59 @@ export function createServer(options: ServerOptions): {
       return;
     }
 
+    // API endpoint for renaming an element and every reference to it (and optionally an actor's wireframe files)
+    if (url.pathname === '/api/rename' && req.method === 'POST') {
+      if (!filePath) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'No file selected' }));
+        return;
+      }
+
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+      req.on('end', () => {
+        try {
+          const { type, from, to, wireframes } = JSON.parse(body);
+          if (!RENAME_TYPES.includes(type) || typeof from !== 'string' || typeof to !== 'string') {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Invalid request' }));
+            return;
+          }
+
+          const source = fs.readFileSync(filePath!, 'utf-8');
+          const model = JSON.parse(source) as GiraflowModel;
+          const problem = findRenameProblem(model, type, from, to);
+          if (problem) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: problem }));
+            return;
+          }
+
+          // Move the files first: the model only points at wireframes that were moved
+          const moved = wireframes
+            ? moveWireframes(filePath!, findWireframeRenames(model, type, from, to))
+            : { moved: [], skipped: [] };
+          const result = renameElement(model, type, from, to, { wireframes: moved.moved });
+          const indent = source.match(/^([ \t]+)"/m)?.[1] ?? '  ';
+          const newline = source.endsWith('\n') ? '\n' : '';
+          fs.writeFileSync(filePath!, JSON.stringify(result.model, null, indent) + newline, 'utf-8');
+
+          loadModel();
+          if (moved.moved.length > 0) triggerWireframeReload();
+
+          res.writeHead(200, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          });
+          res.end(JSON.stringify({ changes: result.changes, wireframes: moved.moved, skipped: moved.skipped }));
+        } catch (err) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: err instanceof Error ? err.message : 'Invalid request' }));
+        }
+      });
+      return;
+    }
+
     // API endpoint for creating new files
     if (url.pathname === '/api/create-file' && req.method === 'POST') {
       let body = '';
@@ -383,6 +522,67 @@ export function createServer(options: ServerOptions): {
       return;
     }
 
+    // API endpoint for the timeline as a standalone SVG
+    if (url.pathname === '/api/export/svg' && req.method === 'GET') {
+      if (!currentModel) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('No model loaded');
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'image/svg+xml; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Access-Control-Allow-Origin': '*',
+      });
+      res.end(renderTimelineSvg(currentModel));
+      return;
+    }
+
+    // API endpoint for a second version of the model to compare with:
+    // another file in the working directory (?file=) or a git revision of the watched file (?rev=)
+    if (url.pathname === '/api/compare' && req.method === 'GET') {
+      const file = url.searchParams.get('file');
+      const rev = url.searchParams.get('rev');
+      try {
+        let source: string;
+        let label: string;
+        if (rev) {
+          if (!filePath) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'No file selected' }));
+            return;
+          }
+          source = readFileAtRevision(filePath, rev);
+          label = `${rev}:${path.basename(filePath)}`;
+        } else if (file) {
+          // Security: only the model files of the file list, nothing else in the working directory
+          if (!findGiraflowFiles().includes(file)) {
+            res.writeHead(403, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Only .giraflow.json files of the working directory can be compared' }));
+            return;
+          }
+          const comparePath = path.join(workingDir, file);
+          source = fs.readFileSync(comparePath, 'utf-8');
+          label = file;
+        } else {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'File or revision is required' }));
+          return;
+        }
+
+        res.writeHead(200, {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-cache',
+          'Access-Control-Allow-Origin': '*',
+        });
+        res.end(JSON.stringify({ model: JSON.parse(source) as GiraflowModel, label }));
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : 'Invalid request' }));
+      }
+      return;
+    }
+
     // API endpoint for saving wireframes
     if (url.pathname === '/api/wireframe' && req.method === 'POST') {
       if (!filePath) {
@@ -494,6 +694,7 @@ export function createServer(options: ServerOptions): {
     },
     triggerReload,
     triggerWireframeReload,
+    triggerTestResultsReload,
     setFilePath: (newPath: string) => {
       filePath = newPath;
       loadModel();
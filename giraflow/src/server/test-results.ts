@@ -0,0 +1,130 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  TEST_RESULTS_FILES,
+  type ScenarioResult,
+  type ScenarioStatus,
+  type TestResultsFile,
+} from '../shared/scenario-results.js';
+
+const SCENARIO_STATUSES: ScenarioStatus[] = ['passed', 'failed', 'skipped'];
+
+/**
+ * The character of a numeric character reference, or the reference itself if
+ * it is out of range
+ */
+function decodeCharacter(reference: string, code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (reference, code) => decodeCharacter(reference, parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (reference, code) => decodeCharacter(reference, parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Read scenario results from JUnit XML.
+ *
+ * Test cases are matched to slices by their classname ("state:Name" or
+ * "command:Name", as written by `giraflow test -f junit`) and to scenarios by
+ * their name. Other test cases are ignored.
+ */
+export function parseJunitXml(xml: string): ScenarioResult[] {
+  const results: ScenarioResult[] = [];
+  const testcases = xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g);
+
+  for (const [, attributeText, body = ''] of testcases) {
+    const attributes = parseAttributes(attributeText);
+    const slice = attributes.classname?.match(/^(state|command):(.+)$/);
+    if (!slice || !attributes.name) continue;
+
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const skipped = body.match(/<skipped\b([^>]*?)\/?>/);
+    const result: ScenarioResult = {
+      sliceType: slice[1] as 'state' | 'command',
+      sliceName: slice[2],
+      scenario: attributes.name,
+      scenarioIndex: -1,
+      status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+      steps: [],
+      durationMs: parseFloat(attributes.time ?? '0') * 1000 || 0,
+    };
+
+    if (failure) {
+      result.message = parseAttributes(failure[2]).message || 'failed';
+      if (failure[3]?.trim()) result.details = decodeXml(failure[3].trim());
+    } else if (skipped) {
+      result.message = parseAttributes(skipped[1]).message || 'skipped';
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Why an entry of a test results file cannot be shown, or null if it can
+ */
+function findResultProblem(entry: unknown): string | null {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) return 'not an object';
+  const result = entry as Record<string, unknown>;
+  if (result.sliceType !== 'state' && result.sliceType !== 'command') return '"sliceType" must be "state" or "command"';
+  if (typeof result.sliceName !== 'string') return '"sliceName" must be a string';
+  if (typeof result.scenario !== 'string') return '"scenario" must be a string';
+  if (!SCENARIO_STATUSES.includes(result.status as ScenarioStatus)) {
+    return `"status" must be one of ${SCENARIO_STATUSES.join(', ')}`;
+  }
+  if (result.steps !== undefined && !Array.isArray(result.steps)) return '"steps" must be an array';
+  return null;
+}
+
+/**
+ * Load the test results file from a model's asset folder, if present.
+ * Throws if the file exists but cannot be read; invalid entries are left out
+ * with a warning.
+ */
+export function loadTestResults(giraflowDir: string): TestResultsFile | null {
+  for (const fileName of TEST_RESULTS_FILES) {
+    const resultsPath = path.join(giraflowDir, fileName);
+    if (!fs.existsSync(resultsPath)) continue;
+
+    const content = fs.readFileSync(resultsPath, 'utf-8');
+    const generatedAt = fs.statSync(resultsPath).mtime.toISOString();
+
+    if (fileName.endsWith('.xml')) {
+      return { generatedAt, results: parseJunitXml(content) };
+    }
+
+    const data = JSON.parse(content) as Partial<TestResultsFile>;
+    if (!Array.isArray(data.results)) {
+      throw new Error(`${fileName} has no "results" array`);
+    }
+    const results: ScenarioResult[] = [];
+    (data.results as unknown[]).forEach((entry, i) => {
+      const problem = findResultProblem(entry);
+      if (problem) {
+        console.warn(`Warning: ${fileName}: skipped results[${i}], ${problem}`);
+      } else {
+        const result = entry as ScenarioResult;
+        results.push({ ...result, scenarioIndex: result.scenarioIndex ?? -1, steps: result.steps ?? [], durationMs: result.durationMs ?? 0 });
+      }
+    });
+    return { generatedAt: data.generatedAt ?? generatedAt, results };
+  }
+  return null;
+}
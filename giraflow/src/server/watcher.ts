@@ -1,48 +1,61 @@
 import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { TEST_RESULTS_FILES } from '../shared/scenario-results.js';
 
 export interface WatcherOptions {
   filePath: string;
   onModelChange: () => void;
   onWireframeChange: () => void;
+  onTestResultsChange?: () => void;
   debounceMs?: number;
 }
 
+type ChangeType = 'model' | 'wireframe' | 'test-results';
+
 export function createWatcher(options: WatcherOptions): {
   start: () => void;
   stop: () => void;
 } {
-  const { filePath, onModelChange, onWireframeChange, debounceMs = 100 } = options;
+  const { filePath, onModelChange, onWireframeChange, onTestResultsChange, debounceMs = 100 } = options;
 
   const watchers: fs.FSWatcher[] = [];
   let debounceTimeout: NodeJS.Timeout | null = null;
-  let pendingChangeType: 'model' | 'wireframe' | null = null;
+  const pendingChangeTypes = new Set<ChangeType>();
 
   // Derive the .giraflow folder path from the .giraflow.json file
   // e.g., "model.giraflow.json" -> "model.giraflow/"
   const giraflowFolderPath = filePath.replace(/\.json$/, '');
 
-  function scheduleCallback(changeType: 'model' | 'wireframe'): void {
-    // Model changes take precedence over wireframe changes
-    if (pendingChangeType !== 'model') {
-      pendingChangeType = changeType;
-    }
+  function scheduleCallback(changeType: ChangeType): void {
+    pendingChangeTypes.add(changeType);
 
     if (debounceTimeout) {
       clearTimeout(debounceTimeout);
     }
 
     debounceTimeout = setTimeout(() => {
-      if (pendingChangeType === 'model') {
+      // Model changes take precedence, a model reload refreshes everything
+      if (pendingChangeTypes.has('model')) {
         console.log(`  ⟳ Model changed, reloading...`);
         onModelChange();
       } else {
-        console.log(`  ⟳ Wireframe changed, refreshing iframes...`);
-        onWireframeChange();
+        if (pendingChangeTypes.has('test-results') && onTestResultsChange) {
+          console.log(`  ⟳ Test results changed, updating...`);
+          onTestResultsChange();
+        }
+        if (pendingChangeTypes.has('wireframe')) {
+          console.log(`  ⟳ Wireframe changed, refreshing iframes...`);
+          onWireframeChange();
+        }
       }
-      pendingChangeType = null;
+      pendingChangeTypes.clear();
     }, debounceMs);
   }
 
+  function classifyFolderChange(filename: string | null): ChangeType {
+    return filename && TEST_RESULTS_FILES.includes(path.basename(filename)) ? 'test-results' : 'wireframe';
+  }
+
   return {
     start: () => {
       // Watch the main JSON file
@@ -59,7 +72,9 @@ export function createWatcher(options: WatcherOptions): {
       // Watch the .giraflow folder if it exists (for wireframes, etc.)
       if (fs.existsSync(giraflowFolderPath) && fs.statSync(giraflowFolderPath).isDirectory()) {
         try {
-          const folderWatcher = fs.watch(giraflowFolderPath, { recursive: true }, () => scheduleCallback('wireframe'));
+          const folderWatcher = fs.watch(giraflowFolderPath, { recursive: true }, (_, filename) =>
+            scheduleCallback(classifyFolderChange(filename))
+          );
           folderWatcher.on('error', (err) => {
             console.error(`  ⚠ Watch error on wireframes: ${err.message}`);
           });
@@ -0,0 +1,36 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { WireframeRename } from '../shared/rename.js';
+
+export interface WireframeMoveResult {
+  moved: WireframeRename[];
+  /** Renames that were not done, with the reason */
+  skipped: { rename: WireframeRename; reason: string }[];
+}
+
+/**
+ * Move wireframe files inside the asset folder of a model file
+ * (hotel.giraflow.json → hotel.giraflow/). A file is skipped if it is
+ * missing, if the target exists already or if a path leaves the asset folder.
+ */
+export function moveWireframes(modelPath: string, renames: WireframeRename[]): WireframeMoveResult {
+  const result: WireframeMoveResult = { moved: [], skipped: [] };
+  const assetDir = path.resolve(modelPath.replace(/\.json$/i, ''));
+
+  for (const rename of renames) {
+    const from = path.resolve(assetDir, rename.from);
+    const to = path.resolve(assetDir, rename.to);
+    if (!from.startsWith(assetDir + path.sep) || !to.startsWith(assetDir + path.sep)) {
+      result.skipped.push({ rename, reason: 'outside the asset folder' });
+    } else if (!fs.existsSync(from)) {
+      result.skipped.push({ rename, reason: 'file not found' });
+    } else if (fs.existsSync(to)) {
+      result.skipped.push({ rename, reason: 'target exists' });
+    } else {
+      fs.mkdirSync(path.dirname(to), { recursive: true });
+      fs.renameSync(from, to);
+      result.moved.push(rename);
+    }
+  }
+  return result;
+}
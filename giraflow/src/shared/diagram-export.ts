@@ -0,0 +1,203 @@
+/**
+ * Diagram Export
+ *
+ * Renders the timeline as Mermaid (flowchart or sequence diagram) or PlantUML
+ * for embedding in Markdown docs and ADRs. The lanes come from
+ * buildTimelineViewModel: event systems on the left, commands and states in
+ * the center, actor roles on the right, elements in tick order.
+ *
+ * This module is used by both client (Header) and CLI (`giraflow export diagram`).
+ */
+
+import type { GiraflowModel, TimelineElement } from './types.js';
+import {
+  buildTimelineViewModel,
+  buildTimelineLinks,
+  type TimelineItem,
+  type TimelineViewModel,
+} from './timeline-builder.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export type DiagramFormat = 'mermaid' | 'mermaid-sequence' | 'plantuml';
+
+export const DIAGRAM_FORMATS: DiagramFormat[] = ['mermaid', 'mermaid-sequence', 'plantuml'];
+
+export const DIAGRAM_FORMAT_LABELS: Record<DiagramFormat, string> = {
+  mermaid: 'Mermaid flowchart',
+  'mermaid-sequence': 'Mermaid sequence diagram',
+  plantuml: 'PlantUML',
+};
+
+interface Lane {
+  id: string;
+  label: string;
+  position: TimelineItem['position'];
+}
+
+/** Element colors of the web UI (global.css) */
+const COLORS: Record<TimelineElement['type'], string> = {
+  event: '#ff9e64',
+  state: '#9ece6a',
+  command: '#7aa2f7',
+  actor: '#6b7280',
+};
+
+// ============================================================================
+// Lanes
+// ============================================================================
+
+/**
+ * Lanes from left to right, labelled like the timeline views
+ */
+function buildLanes(viewModel: TimelineViewModel): Lane[] {
+  const { eventSystems, actorRoles } = viewModel.laneConfig;
+  return [
+    ...eventSystems.map((system, i) => ({ id: `E${i}`, label: system || 'Events', position: 'left' as const })),
+    { id: 'C', label: 'Cmd / State', position: 'center' as const },
+    ...actorRoles.map((role, i) => ({ id: `A${i}`, label: role || 'Actors', position: 'right' as const })),
+  ];
+}
+
+function laneOf(item: TimelineItem, lanes: Lane[]): Lane {
+  return lanes.filter((lane) => lane.position === item.position)[item.laneIndex];
+}
+
+// ============================================================================
+// Mermaid
+// ============================================================================
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ');
+}
+
+function mermaidMessage(text: string): string {
+  return text.replace(/#/g, '#35;').replace(/;/g, '#59;').replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Mermaid flowchart: one subgraph per lane, elements stacked in tick order
+ * (invisible links) and connected along the information flow.
+ */
+function renderMermaidFlowchart(model: GiraflowModel, viewModel: TimelineViewModel): string {
+  const lanes = buildLanes(viewModel);
+  const nodeIds = new Map(viewModel.items.map((item, i) => [item, `n${i}`]));
+  const lines = ['---', `title: "${mermaidText(model.name)}"`, '---', 'flowchart LR'];
+
+  for (const lane of lanes) {
+    const laneItems = viewModel.items.filter((item) => laneOf(item, lanes) === lane);
+    if (laneItems.length === 0) continue;
+    lines.push(`  subgraph ${lane.id}["${mermaidText(lane.label)}"]`, '    direction TB');
+    for (const item of laneItems) {
+      const label = `"${mermaidText(item.element.name)}<br/><small>@${item.element.tick}</small>"`;
+      const node = item.element.type === 'actor' ? `([${label}])` : `[${label}]`;
+      lines.push(`    ${nodeIds.get(item)}${node}`);
+    }
+    for (let i = 1; i < laneItems.length; i++) {
+      lines.push(`    ${nodeIds.get(laneItems[i - 1])} ~~~ ${nodeIds.get(laneItems[i])}`);
+    }
+    lines.push('  end');
+  }
+
+  for (const { from, to } of buildTimelineLinks(viewModel.items)) {
+    lines.push(`  ${nodeIds.get(from)} --> ${nodeIds.get(to)}`);
+  }
+
+  for (const type of Object.keys(COLORS) as TimelineElement['type'][]) {
+    const ids = viewModel.items.filter((item) => item.element.type === type).map((item) => nodeIds.get(item));
+    if (ids.length === 0) continue;
+    const text = type === 'actor' ? '#fff' : '#1a1b26';
+    lines.push(`  classDef ${type} fill:${COLORS[type]},stroke:${COLORS[type]},color:${text}`);
+    lines.push(`  class ${ids.join(',')} ${type}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid sequence diagram: one participant per lane, one message per
+ * element in tick order (notes for elements without incoming flow).
+ */
+function renderMermaidSequence(model: GiraflowModel, viewModel: TimelineViewModel): string {
+  const lanes = buildLanes(viewModel);
+  const links = buildTimelineLinks(viewModel.items);
+  const lines = ['---', `title: "${mermaidText(model.name)}"`, '---', 'sequenceDiagram'];
+
+  for (const lane of lanes) {
+    lines.push(`  participant ${lane.id} as ${mermaidMessage(lane.label)}`);
+  }
+
+  for (const item of viewModel.items) {
+    const lane = laneOf(item, lanes);
+    const text = mermaidMessage(`${item.element.name} @${item.element.tick}`);
+    // Commands come from their actor, events from their command, states from
+    // their source events, actors from the state views they read
+    const sources = [...new Set(links.filter((link) => link.to === item).map((link) => laneOf(link.from, lanes)))];
+
+    if (sources.length === 0) {
+      lines.push(`  Note over ${lane.id}: ${text}`);
+      continue;
+    }
+    const arrow = item.element.type === 'actor' ? '-->>' : '->>';
+    for (const source of sources) {
+      lines.push(`  ${source.id}${arrow}${lane.id}: ${text}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// PlantUML
+// ============================================================================
+
+function plantUmlText(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * PlantUML activity diagram: one swimlane per lane (declared left to right),
+ * one activity per element in tick order.
+ */
+function renderPlantUml(model: GiraflowModel, viewModel: TimelineViewModel): string {
+  const lanes = buildLanes(viewModel);
+  const lines = ['@startuml', `title ${plantUmlText(model.name)}`];
+
+  for (const lane of lanes) {
+    lines.push(`|${plantUmlText(lane.label)}|`);
+  }
+
+  let current: Lane | undefined;
+  for (const item of viewModel.items) {
+    const lane = laneOf(item, lanes);
+    if (lane !== current) {
+      lines.push(`|${plantUmlText(lane.label)}|`);
+      current = lane;
+    }
+    lines.push(`${COLORS[item.element.type]}:${plantUmlText(item.element.name)}\n<size:10>@${item.element.tick}</size>;`);
+  }
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Render the timeline of a model as a diagram in the given format
+ */
+export function renderDiagram(model: GiraflowModel, format: DiagramFormat): string {
+  const viewModel = buildTimelineViewModel(model);
+  switch (format) {
+    case 'mermaid':
+      return renderMermaidFlowchart(model, viewModel);
+    case 'mermaid-sequence':
+      return renderMermaidSequence(model, viewModel);
+    case 'plantuml':
+      return renderPlantUml(model, viewModel);
+  }
+}
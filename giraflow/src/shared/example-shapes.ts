@@ -0,0 +1,119 @@
+/**
+ * Example Shapes
+ *
+ * Infers the structure of a message from its example values. Examples of the
+ * same event, command or state view at different ticks are merged: differing
+ * types become unions, properties missing from some examples become optional.
+ *
+ * This module is used by the code and schema generators.
+ */
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export interface PropertyShape {
+  shape: Shape;
+  optional: boolean;
+}
+
+export type Shape =
+  /** No example value seen (e.g. items of an empty array) */
+  | { kind: 'unknown' }
+  | { kind: 'null' }
+  | { kind: 'boolean' }
+  | { kind: 'integer' }
+  | { kind: 'number' }
+  | { kind: 'string' }
+  | { kind: 'array'; items: Shape }
+  | { kind: 'object'; properties: Record<string, PropertyShape> }
+  | { kind: 'union'; variants: Shape[] };
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+const UNKNOWN: Shape = { kind: 'unknown' };
+
+/**
+ * Shape of a single example value
+ */
+export function shapeOf(value: unknown): Shape {
+  if (value === null) return { kind: 'null' };
+  if (Array.isArray(value)) {
+    return { kind: 'array', items: value.map(shapeOf).reduce(mergeShapes, UNKNOWN) };
+  }
+  switch (typeof value) {
+    case 'boolean':
+      return { kind: 'boolean' };
+    case 'number':
+      return { kind: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'string':
+      return { kind: 'string' };
+    case 'object': {
+      const properties: Record<string, PropertyShape> = {};
+      for (const [key, property] of Object.entries(value as Record<string, unknown>)) {
+        properties[key] = { shape: shapeOf(property), optional: false };
+      }
+      return { kind: 'object', properties };
+    }
+    default:
+      return UNKNOWN;
+  }
+}
+
+function variantsOf(shape: Shape): Shape[] {
+  if (shape.kind === 'union') return shape.variants;
+  if (shape.kind === 'unknown') return [];
+  return [shape];
+}
+
+function mergeVariant(a: Shape, b: Shape): Shape | null {
+  if (a.kind === 'object' && b.kind === 'object') {
+    const properties: Record<string, PropertyShape> = {};
+    const keys = new Set([...Object.keys(a.properties), ...Object.keys(b.properties)]);
+    for (const key of keys) {
+      const left = a.properties[key];
+      const right = b.properties[key];
+      properties[key] = left && right
+        ? { shape: mergeShapes(left.shape, right.shape), optional: left.optional || right.optional }
+        : { shape: (left ?? right).shape, optional: true };
+    }
+    return { kind: 'object', properties };
+  }
+  if (a.kind === 'array' && b.kind === 'array') {
+    return { kind: 'array', items: mergeShapes(a.items, b.items) };
+  }
+  if ((a.kind === 'integer' || a.kind === 'number') && (b.kind === 'integer' || b.kind === 'number')) {
+    return { kind: a.kind === 'integer' && b.kind === 'integer' ? 'integer' : 'number' };
+  }
+  return a.kind === b.kind ? a : null;
+}
+
+/**
+ * Merge two shapes. Objects, arrays and numbers are merged structurally, so a
+ * union holds at most one variant per kind.
+ */
+export function mergeShapes(a: Shape, b: Shape): Shape {
+  const variants: Shape[] = [];
+  for (const variant of [...variantsOf(a), ...variantsOf(b)]) {
+    const index = variants.findIndex((v) => mergeVariant(v, variant) !== null);
+    if (index === -1) {
+      variants.push(variant);
+    } else {
+      variants[index] = mergeVariant(variants[index], variant)!;
+    }
+  }
+  if (variants.length === 0) return UNKNOWN;
+  return variants.length === 1 ? variants[0] : { kind: 'union', variants };
+}
+
+/**
+ * Shape covering all given example values (undefined values are ignored)
+ */
+export function inferShape(examples: unknown[]): Shape {
+  return examples
+    .filter((example) => example !== undefined)
+    .map(shapeOf)
+    .reduce(mergeShapes, UNKNOWN);
+}
@@ -0,0 +1,172 @@
+/**
+ * JSON Pointer helpers
+ *
+ * Maps JSON Pointers (RFC 6901, e.g. "/timeline/3/sourcedFrom/0") to their
+ * position in the original JSON text, so diagnostics can point at a line.
+ *
+ * This module is used by both server (CLI reports) and client (editor).
+ */
+
+export interface JsonRange {
+  start: number;
+  end: number;
+}
+
+export interface JsonLocation {
+  pointer: string;
+  offset: number;
+  length: number;
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+/**
+ * Escape a single reference token for use in a JSON Pointer.
+ */
+export function escapePointerToken(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Build a JSON Pointer from a list of reference tokens.
+ */
+export function toJsonPointer(...tokens: (string | number)[]): string {
+  return tokens.map((t) => `/${escapePointerToken(t)}`).join('');
+}
+
+/**
+ * Scan a JSON text and record the range of every value by its JSON Pointer.
+ *
+ * The scanner is lenient: on malformed input it returns the ranges collected
+ * up to the first syntax error instead of throwing.
+ */
+export function indexJsonPointers(text: string): Map<string, JsonRange> {
+  const ranges = new Map<string, JsonRange>();
+  let pos = 0;
+
+  function skipWhitespace(): void {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  }
+
+  function expect(char: string): void {
+    if (text[pos] !== char) {
+      throw new SyntaxError(`Expected '${char}' at offset ${pos}`);
+    }
+    pos++;
+  }
+
+  function readString(): string {
+    const start = pos;
+    expect('"');
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    expect('"');
+    return JSON.parse(text.slice(start, pos)) as string;
+  }
+
+  function readValue(pointer: string): void {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          const key = readString();
+          skipWhitespace();
+          expect(':');
+          readValue(`${pointer}/${escapePointerToken(key)}`);
+          skipWhitespace();
+          if (text[pos] === ',') {
+            pos++;
+            continue;
+          }
+          expect('}');
+          break;
+        }
+      }
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+      } else {
+        for (let index = 0; ; index++) {
+          readValue(`${pointer}/${index}`);
+          skipWhitespace();
+          if (text[pos] === ',') {
+            pos++;
+            continue;
+          }
+          expect(']');
+          break;
+        }
+      }
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+      if (pos === start) {
+        throw new SyntaxError(`Unexpected token at offset ${pos}`);
+      }
+    }
+
+    ranges.set(pointer, { start, end: pos });
+  }
+
+  try {
+    readValue('');
+  } catch {
+    // Keep what was indexed before the syntax error
+  }
+
+  return ranges;
+}
+
+/**
+ * Convert a character offset into a 1-based line and column.
+ */
+export function offsetToLineColumn(text: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Find the location of a JSON Pointer in a JSON text.
+ *
+ * If the pointer itself does not exist (e.g. a missing required property),
+ * the closest existing parent is returned instead.
+ */
+export function locateJsonPointer(
+  text: string,
+  pointer: string,
+  index: Map<string, JsonRange> = indexJsonPointers(text)
+): JsonLocation | null {
+  let current = pointer;
+  for (;;) {
+    const range = index.get(current);
+    if (range) {
+      return {
+        pointer: current,
+        offset: range.start,
+        length: range.end - range.start,
+        ...offsetToLineColumn(text, range.start),
+      };
+    }
+    if (current === '') return null;
+    current = current.slice(0, current.lastIndexOf('/'));
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Message Catalog
+ *
+ * Lists the distinct events, commands and state views of a model together
+ * with the shape inferred from all their examples and the events they are
+ * linked to (produced events for commands, source events for state views).
+ *
+ * This module is used by the generators (`giraflow codegen`, message schemas).
+ */
+
+import type { GiraflowModel, Event, EventReference } from './types.js';
+import { isEvent } from './types.js';
+import { buildSliceViewModel } from './slice-builder.js';
+import { inferShape, type Shape } from './example-shapes.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export interface MessageType {
+  kind: 'event' | 'command' | 'state';
+  name: string;
+  ticks: number[];
+  /** Number of ticks with an example */
+  exampleCount: number;
+  /** Number of specification scenario values merged into the shape */
+  scenarioValueCount: number;
+  shape: Shape;
+  /** Commands: produced events. State views: events it is sourced from. */
+  events: string[];
+  system?: string;
+}
+
+export interface MessageCatalogOptions {
+  /** Also infer shapes from the data in specification scenarios */
+  includeScenarios?: boolean;
+}
+
+export interface MessageCatalog {
+  modelName: string;
+  events: MessageType[];
+  commands: MessageType[];
+  states: MessageType[];
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+function countExamples(examples: unknown[]): number {
+  return examples.filter((example) => example !== undefined).length;
+}
+
+/**
+ * Data values per "kind:name" found in specification scenarios: command
+ * payloads, event data and state view states.
+ */
+function collectScenarioValues(model: GiraflowModel): Map<string, unknown[]> {
+  const values = new Map<string, unknown[]>();
+  const add = (key: string, value: unknown) => {
+    if (value === undefined) return;
+    values.set(key, [...(values.get(key) ?? []), value]);
+  };
+  const addEvents = (events: EventReference[] | undefined) => {
+    for (const event of events ?? []) add(`event:${event.event}`, event.data);
+  };
+
+  for (const spec of model.specifications ?? []) {
+    if (spec.type === 'command') {
+      for (const scenario of spec.scenarios ?? []) {
+        for (const step of scenario.steps ?? []) {
+          addEvents(step.events);
+          addEvents(step.produces);
+          add(`command:${spec.name}`, step.when);
+        }
+      }
+    } else {
+      for (const scenario of spec.scenarios ?? []) {
+        add(`state:${spec.name}`, scenario.initialState);
+        for (const step of scenario.steps ?? []) {
+          addEvents([step.given]);
+          add(`state:${spec.name}`, step.then);
+        }
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Build the message catalog of a model. Commands and state views are taken
+ * from the slices, events from the timeline (in order of first appearance).
+ */
+export function buildMessageCatalog(model: GiraflowModel, options: MessageCatalogOptions = {}): MessageCatalog {
+  const scenarioValues = options.includeScenarios ? collectScenarioValues(model) : new Map<string, unknown[]>();
+  const inferFrom = (key: string, examples: unknown[]) => {
+    const values = scenarioValues.get(key) ?? [];
+    return {
+      exampleCount: countExamples(examples),
+      scenarioValueCount: values.length,
+      shape: inferShape([...examples, ...values]),
+    };
+  };
+
+  const eventsByName = new Map<string, Event[]>();
+  const timelineEvents = model.timeline
+    .filter(isEvent)
+    .sort((a, b) => a.tick - b.tick);
+  for (const event of timelineEvents) {
+    eventsByName.set(event.name, [...(eventsByName.get(event.name) ?? []), event]);
+  }
+
+  const events: MessageType[] = [...eventsByName].map(([name, occurrences]) => {
+    const examples = occurrences.map((e) => e.example);
+    return {
+      kind: 'event',
+      name,
+      ticks: occurrences.map((e) => e.tick),
+      ...inferFrom(`event:${name}`, examples),
+      events: [],
+      system: occurrences.find((e) => e.system)?.system,
+    };
+  });
+
+  const commands: MessageType[] = [];
+  const states: MessageType[] = [];
+  for (const slice of buildSliceViewModel(model).slices) {
+    if (slice.type === 'command') {
+      const examples = slice.commandOccurrences.map((occ) => occ.command.example);
+      commands.push({
+        kind: 'command',
+        name: slice.name,
+        ticks: slice.ticks,
+        ...inferFrom(`command:${slice.name}`, examples),
+        events: slice.produces.map((ref) => ref.name),
+      });
+    } else {
+      const examples = slice.stateOccurrences.map((occ) => occ.state.example);
+      states.push({
+        kind: 'state',
+        name: slice.name,
+        ticks: slice.ticks,
+        ...inferFrom(`state:${slice.name}`, examples),
+        events: slice.sourcedFrom.map((ref) => ref.name),
+      });
+    }
+  }
+
+  return { modelName: model.name, events, commands, states };
+}
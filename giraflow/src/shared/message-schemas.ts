@@ -0,0 +1,172 @@
+/**
+ * Message Schemas
+ *
+ * Builds a JSON Schema per event, command and state view from the shapes of
+ * the message catalog (examples across ticks plus specification scenario
+ * data). Fields whose type differs between occurrences are flagged.
+ *
+ * This module is used by both server (auto-export on reload) and CLI
+ * (`giraflow export schemas`).
+ */
+
+import type { GiraflowModel } from './types.js';
+import type { Shape } from './example-shapes.js';
+import { buildMessageCatalog, type MessageType } from './message-catalog.js';
+import { escapePointerToken } from './json-pointer.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface TypeConflict {
+  kind: MessageType['kind'];
+  message: string;
+  /** JSON Pointer into the message data ("" for the value itself, "*" for any array item) */
+  pointer: string;
+  /** JSON types seen at this location */
+  types: string[];
+}
+
+export interface MessageSchema {
+  kind: MessageType['kind'];
+  name: string;
+  /**
+   * Path relative to the schema folder, e.g. "events/TodoAdded.schema.json".
+   * Names that map to the same file get a numbered suffix: "Todo-Added-2.schema.json"
+   */
+  path: string;
+  schema: JsonSchema;
+  conflicts: TypeConflict[];
+}
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Sub folder per message kind */
+export const MESSAGE_SCHEMA_FOLDERS: Record<MessageType['kind'], string> = {
+  event: 'events',
+  command: 'commands',
+  state: 'state-views',
+};
+
+const LABELS: Record<MessageType['kind'], string> = {
+  event: 'Event',
+  command: 'Command',
+  state: 'State view',
+};
+
+// ============================================================================
+// Schema building
+// ============================================================================
+
+function typeName(shape: Shape): string {
+  return shape.kind === 'union' ? shape.variants.map(typeName).join(' | ') : shape.kind;
+}
+
+/**
+ * Convert a shape to JSON Schema, collecting the pointers of unions
+ * (locations whose type differs between occurrences).
+ */
+function toSchema(shape: Shape, pointer: string, conflicts: { pointer: string; types: string[] }[]): JsonSchema {
+  switch (shape.kind) {
+    case 'unknown':
+      return {};
+    case 'null':
+    case 'boolean':
+    case 'integer':
+    case 'number':
+    case 'string':
+      return { type: shape.kind };
+    case 'array':
+      return { type: 'array', items: toSchema(shape.items, `${pointer}/*`, conflicts) };
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, property] of Object.entries(shape.properties)) {
+        properties[key] = toSchema(property.shape, `${pointer}/${escapePointerToken(key)}`, conflicts);
+        if (!property.optional) required.push(key);
+      }
+      return {
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      };
+    }
+    case 'union': {
+      const types = shape.variants.map(typeName);
+      conflicts.push({ pointer, types });
+      const simple = shape.variants.every((v) => v.kind !== 'array' && v.kind !== 'object');
+      return {
+        $comment: `Type differs between occurrences: ${types.join(', ')}`,
+        ...(simple
+          ? { type: shape.variants.map((v) => v.kind) }
+          : { anyOf: shape.variants.map((v) => toSchema(v, pointer, conflicts)) }),
+      };
+    }
+  }
+}
+
+/**
+ * File name for a message name, keeping it readable but filesystem-safe
+ */
+function toFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-') || 'unnamed';
+}
+
+/**
+ * Schema file path of a message, numbered if an earlier message already took
+ * the file name. Compared case-insensitively, as many file systems are.
+ */
+function uniquePath(message: MessageType, taken: Set<string>): string {
+  const base = `${MESSAGE_SCHEMA_FOLDERS[message.kind]}/${toFileName(message.name)}`;
+  let path = base;
+  for (let n = 2; taken.has(path.toLowerCase()); n++) {
+    path = `${base}-${n}`;
+  }
+  taken.add(path.toLowerCase());
+  return `${path}.schema.json`;
+}
+
+function describe(message: MessageType, modelName: string): string {
+  const sources = [
+    `${message.exampleCount} example${message.exampleCount === 1 ? '' : 's'}`,
+    ...(message.scenarioValueCount > 0
+      ? [`${message.scenarioValueCount} scenario value${message.scenarioValueCount === 1 ? '' : 's'}`]
+      : []),
+  ];
+  return `${LABELS[message.kind]} "${message.name}" of "${modelName}", inferred from ${sources.join(' and ')}.`;
+}
+
+/**
+ * Build one JSON Schema per event, command and state view of a model
+ */
+export function buildMessageSchemas(model: GiraflowModel): MessageSchema[] {
+  const catalog = buildMessageCatalog(model, { includeScenarios: true });
+  const messages = [...catalog.events, ...catalog.commands, ...catalog.states];
+  const taken = new Set<string>();
+
+  return messages.map((message) => {
+    const found: { pointer: string; types: string[] }[] = [];
+    const schema: JsonSchema = {
+      $schema: SCHEMA_DIALECT,
+      title: message.name,
+      description: describe(message, catalog.modelName),
+      ...toSchema(message.shape, '', found),
+    };
+    return {
+      kind: message.kind,
+      name: message.name,
+      path: uniquePath(message, taken),
+      schema,
+      conflicts: found.map((c) => ({ kind: message.kind, message: message.name, ...c })),
+    };
+  });
+}
+
+/**
+ * Serialize a schema the way it is written to disk
+ */
+export function formatMessageSchema(schema: MessageSchema): string {
+  return JSON.stringify(schema.schema, null, 2) + '\n';
+}
@@ -0,0 +1,455 @@
+/**
+ * Model Diff
+ *
+ * Semantic diff between two versions of a model. Ticks shift with every
+ * insertion, so elements are matched by type and name (slices by the
+ * type:name key of buildSliceViewModel), never by position:
+ * - elements added, removed or renamed (a removed and an added element of the
+ *   same type and shape count as a rename)
+ * - per event: changed examples and systems
+ * - per slice: changed examples, changed produces / sourcedFrom links and
+ *   added, removed or changed spec scenarios
+ *
+ * compareTimelines pairs the individual elements of both versions, for the
+ * web UI's compare mode (added elements highlighted, removed ones ghosted).
+ *
+ * This module is used by `giraflow diff` and the web UI.
+ */
+
+import type { GiraflowModel, TimelineElement } from './types.js';
+import { isEvent, isActor, getReadViews } from './types.js';
+import { buildSliceViewModel, type Slice } from './slice-builder.js';
+import { deepEqual, diffValues } from './scenario-results.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export type ElementType = TimelineElement['type'];
+
+export interface ElementRef {
+  type: ElementType;
+  name: string;
+}
+
+export interface ElementRename {
+  type: ElementType;
+  from: string;
+  to: string;
+}
+
+export interface FieldChange {
+  /** JSON Pointer into the example, "" for the example itself */
+  pointer: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * An example that was added (no before), removed (no after) or changed
+ */
+export interface ExampleChange {
+  before?: unknown;
+  after?: unknown;
+  fields: FieldChange[];
+}
+
+export interface NameChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * An event in both models whose examples or system changed
+ */
+export interface ElementChange {
+  type: ElementType;
+  /** Name in the new model */
+  name: string;
+  /** Name in the old model, if the element was renamed */
+  previousName?: string;
+  examples: ExampleChange[];
+  /** Systems of the occurrences, "" for none */
+  systems: NameChanges;
+}
+
+export interface SliceChange {
+  type: Slice['type'];
+  /** Name in the new model */
+  name: string;
+  /** Name in the old model, if the slice was renamed */
+  previousName?: string;
+  examples: ExampleChange[];
+  /** Produced events (commands) or source events (state views) */
+  links: NameChanges;
+  /** Spec scenarios by name */
+  scenarios: NameChanges & { changed: string[] };
+}
+
+export interface ModelDiff {
+  added: ElementRef[];
+  removed: ElementRef[];
+  renamed: ElementRename[];
+  /** Events in both models that changed beyond a rename */
+  elements: ElementChange[];
+  /** Slices in both models that changed beyond a rename */
+  slices: SliceChange[];
+}
+
+/** Order of the element types: renamed events are known before the slices linking them */
+export const ELEMENT_TYPES: ElementType[] = ['event', 'command', 'state', 'actor'];
+
+// ============================================================================
+// Elements
+// ============================================================================
+
+type Renames = Map<string, string>;
+
+function renameKey(type: ElementType, name: string): string {
+  return `${type}:${name}`;
+}
+
+/**
+ * Name in the new model of a referenced element (renames found so far)
+ */
+function renamed(renames: Renames, type: ElementType, name: string): string {
+  return renames.get(renameKey(type, name)) ?? name;
+}
+
+function exampleOf(element: TimelineElement): unknown {
+  return 'example' in element ? element.example : undefined;
+}
+
+function exampleKeys(examples: unknown[]): string {
+  const keys = new Set<string>();
+  for (const example of examples) {
+    if (example && typeof example === 'object' && !Array.isArray(example)) {
+      Object.keys(example).forEach((key) => keys.add(key));
+    }
+  }
+  return [...keys].sort().join(',');
+}
+
+function sortedNames(names: string[]): string {
+  return [...new Set(names)].sort().join(',');
+}
+
+/**
+ * One model version: its slices by type:name
+ */
+interface ModelIndex {
+  model: GiraflowModel;
+  slices: Map<string, Slice>;
+}
+
+function indexModel(model: GiraflowModel): ModelIndex {
+  const slices = buildSliceViewModel(model).slices;
+  return { model, slices: new Map(slices.map((slice) => [renameKey(slice.type, slice.name), slice])) };
+}
+
+function elementsNamed(index: ModelIndex, type: ElementType, name: string): TimelineElement[] {
+  return index.model.timeline.filter((el) => el.type === type && el.name === name);
+}
+
+function elementNames(index: ModelIndex, type: ElementType): string[] {
+  return [...new Set(index.model.timeline.filter((el) => el.type === type).map((el) => el.name))];
+}
+
+/**
+ * Produced events of a command, source events of a state view
+ */
+function linkNames(slice: Slice, renames: Renames): string[] {
+  const links = slice.type === 'command' ? slice.produces : slice.sourcedFrom;
+  return links.map((link) => renamed(renames, 'event', link.name));
+}
+
+/**
+ * What an element looks like apart from its name, to recognize renames.
+ * References are translated to the new model's names.
+ */
+function elementShape(index: ModelIndex, type: ElementType, name: string, renames: Renames): string {
+  const elements = elementsNamed(index, type, name);
+  const examples = elements.map(exampleOf);
+
+  switch (type) {
+    case 'event': {
+      const systems = elements.filter(isEvent).map((el) => el.system ?? '');
+      return `${sortedNames(systems)}|${exampleKeys(examples)}`;
+    }
+    case 'command':
+    case 'state':
+      return `${exampleKeys(examples)}|${sortedNames(linkNames(index.slices.get(renameKey(type, name))!, renames))}`;
+    case 'actor': {
+      const actors = elements.filter(isActor);
+      const commands = actors.map((actor) => renamed(renames, 'command', actor.sendsCommand));
+      const views = actors.flatMap((actor) => getReadViews(actor).map((view) => renamed(renames, 'state', view)));
+      return `${sortedNames(actors.map((actor) => actor.role ?? ''))}|${sortedNames(commands)}|${sortedNames(views)}`;
+    }
+  }
+}
+
+/**
+ * Pair removed and added names whose shape matches exactly one on each side
+ */
+function findRenames(
+  type: ElementType,
+  removed: string[],
+  added: string[],
+  before: ModelIndex,
+  after: ModelIndex,
+  renames: Renames
+): ElementRename[] {
+  const byShape = (names: string[], index: ModelIndex) => {
+    const groups = new Map<string, string[]>();
+    for (const name of names) {
+      const shape = elementShape(index, type, name, renames);
+      groups.set(shape, [...(groups.get(shape) ?? []), name]);
+    }
+    return groups;
+  };
+  const afterShapes = byShape(added, after);
+
+  const result: ElementRename[] = [];
+  for (const [shape, names] of byShape(removed, before)) {
+    const matches = afterShapes.get(shape);
+    if (names.length === 1 && matches?.length === 1) {
+      result.push({ type, from: names[0], to: matches[0] });
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Examples
+// ============================================================================
+
+function distinctExamples(examples: unknown[]): unknown[] {
+  return examples
+    .filter((example) => example !== undefined)
+    .filter((example, i, all) => all.findIndex((other) => deepEqual(other, example)) === i);
+}
+
+/**
+ * Examples only in one version; removed and added ones are paired in order
+ */
+function diffExamples(beforeAll: unknown[], afterAll: unknown[]): ExampleChange[] {
+  const beforeExamples = distinctExamples(beforeAll);
+  const afterExamples = distinctExamples(afterAll);
+  const removed = beforeExamples.filter((example) => !afterExamples.some((other) => deepEqual(other, example)));
+  const added = afterExamples.filter((example) => !beforeExamples.some((other) => deepEqual(other, example)));
+
+  const changes: ExampleChange[] = [];
+  for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+    const fields = i < removed.length && i < added.length
+      ? diffValues(removed[i], added[i]).map((d) => ({ pointer: d.pointer, before: d.expected, after: d.actual }))
+      : [];
+    changes.push({
+      ...(i < removed.length ? { before: removed[i] } : {}),
+      ...(i < added.length ? { after: added[i] } : {}),
+      fields,
+    });
+  }
+  return changes;
+}
+
+function diffNames(before: string[], after: string[]): NameChanges {
+  return {
+    added: [...new Set(after.filter((name) => !before.includes(name)))],
+    removed: [...new Set(before.filter((name) => !after.includes(name)))],
+  };
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+function eventSystems(elements: TimelineElement[]): string[] {
+  return elements.filter(isEvent).map((el) => el.system ?? '');
+}
+
+function diffEvent(before: ModelIndex, after: ModelIndex, previousName: string, name: string): ElementChange | null {
+  const beforeElements = elementsNamed(before, 'event', previousName);
+  const afterElements = elementsNamed(after, 'event', name);
+  const change: ElementChange = {
+    type: 'event',
+    name,
+    ...(previousName !== name ? { previousName } : {}),
+    examples: diffExamples(beforeElements.map(exampleOf), afterElements.map(exampleOf)),
+    systems: diffNames(eventSystems(beforeElements), eventSystems(afterElements)),
+  };
+
+  const unchanged = change.examples.length === 0 && change.systems.added.length + change.systems.removed.length === 0;
+  return unchanged ? null : change;
+}
+
+// ============================================================================
+// Slices
+// ============================================================================
+
+function sliceExamples(slice: Slice): unknown[] {
+  return slice.type === 'command'
+    ? slice.commandOccurrences.map((occ) => occ.command.example)
+    : slice.stateOccurrences.map((occ) => occ.state.example);
+}
+
+/**
+ * A value with the event references ({ event: name }) translated to the new model's names
+ */
+function withRenamedEvents(value: unknown, renames: Renames): unknown {
+  if (Array.isArray(value)) return value.map((item) => withRenamedEvents(item, renames));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) =>
+      key === 'event' && typeof item === 'string'
+        ? [key, renamed(renames, 'event', item)]
+        : [key, withRenamedEvents(item, renames)]
+    )
+  );
+}
+
+function specScenarios(slice: Slice) {
+  return slice.scenarios.slice(slice.scenarios.length - slice.specScenarioCount);
+}
+
+function diffSlice(before: Slice, after: Slice, renames: Renames): SliceChange | null {
+  const beforeScenarios = specScenarios(before);
+  const afterScenarios = specScenarios(after);
+  const scenarios = {
+    ...diffNames(beforeScenarios.map((s) => s.name), afterScenarios.map((s) => s.name)),
+    changed: afterScenarios
+      .filter((scenario) => {
+        const previous = beforeScenarios.find((s) => s.name === scenario.name);
+        return previous !== undefined && !deepEqual(withRenamedEvents(previous, renames), scenario);
+      })
+      .map((scenario) => scenario.name),
+  };
+
+  const change: SliceChange = {
+    type: after.type,
+    name: after.name,
+    ...(before.name !== after.name ? { previousName: before.name } : {}),
+    examples: diffExamples(sliceExamples(before), sliceExamples(after)),
+    links: diffNames(linkNames(before, renames), linkNames(after, new Map())),
+    scenarios,
+  };
+
+  const unchanged = change.examples.length === 0
+    && change.links.added.length + change.links.removed.length === 0
+    && scenarios.added.length + scenarios.removed.length + scenarios.changed.length === 0;
+  return unchanged ? null : change;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Compare two versions of a model
+ */
+export function diffModels(beforeModel: GiraflowModel, afterModel: GiraflowModel): ModelDiff {
+  const before = indexModel(beforeModel);
+  const after = indexModel(afterModel);
+  const renames: Renames = new Map();
+  const diff: ModelDiff = { added: [], removed: [], renamed: [], elements: [], slices: [] };
+
+  for (const type of ELEMENT_TYPES) {
+    const beforeNames = elementNames(before, type);
+    const afterNames = elementNames(after, type);
+    const removed = beforeNames.filter((name) => !afterNames.includes(name));
+    const added = afterNames.filter((name) => !beforeNames.includes(name));
+
+    const typeRenames = findRenames(type, removed, added, before, after, renames);
+    for (const rename of typeRenames) {
+      renames.set(renameKey(type, rename.from), rename.to);
+    }
+    diff.renamed.push(...typeRenames);
+    diff.removed.push(...removed.filter((name) => !renames.has(renameKey(type, name))).map((name) => ({ type, name })));
+    diff.added.push(...added.filter((name) => !typeRenames.some((r) => r.to === name)).map((name) => ({ type, name })));
+
+    if (type === 'event') {
+      for (const name of afterNames) {
+        const previousName = typeRenames.find((r) => r.to === name)?.from ?? name;
+        const change = beforeNames.includes(previousName) ? diffEvent(before, after, previousName, name) : null;
+        if (change) diff.elements.push(change);
+      }
+    }
+
+    if (type !== 'command' && type !== 'state') continue;
+    for (const name of afterNames) {
+      const previousName = typeRenames.find((r) => r.to === name)?.from ?? name;
+      const previous = before.slices.get(renameKey(type, previousName));
+      const current = after.slices.get(renameKey(type, name));
+      if (!previous || !current) continue;
+      const change = diffSlice(previous, current, renames);
+      if (change) diff.slices.push(change);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether two models are semantically the same
+ */
+export function isEmptyDiff(diff: ModelDiff): boolean {
+  return diff.added.length + diff.removed.length + diff.renamed.length + diff.elements.length + diff.slices.length === 0;
+}
+
+// ============================================================================
+// Timeline comparison
+// ============================================================================
+
+export type ElementStatus = 'added' | 'renamed' | 'changed';
+
+export interface RemovedElement {
+  element: TimelineElement;
+  /** Tick of the new model's element it followed, null if it came first */
+  afterTick: number | null;
+}
+
+export interface TimelineComparison {
+  /** Old version of each of the new model's elements, missing for added elements */
+  previous: Map<TimelineElement, TimelineElement>;
+  /** Elements of the old model without a counterpart in the new one */
+  removed: RemovedElement[];
+}
+
+function byTick(model: GiraflowModel): TimelineElement[] {
+  return [...model.timeline].sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Pair the elements of two model versions: the n-th occurrence of a type and
+ * (renamed) name in the old model with the n-th one in the new model
+ */
+export function compareTimelines(beforeModel: GiraflowModel, afterModel: GiraflowModel, diff: ModelDiff): TimelineComparison {
+  const renames: Renames = new Map(diff.renamed.map((r) => [renameKey(r.type, r.from), r.to]));
+  const occurrences = new Map<string, TimelineElement[]>();
+  for (const element of byTick(afterModel)) {
+    const key = renameKey(element.type, element.name);
+    occurrences.set(key, [...(occurrences.get(key) ?? []), element]);
+  }
+
+  const comparison: TimelineComparison = { previous: new Map(), removed: [] };
+  let afterTick: number | null = null;
+  for (const element of byTick(beforeModel)) {
+    const match = occurrences.get(renameKey(element.type, renamed(renames, element.type, element.name)))?.shift();
+    if (match) {
+      comparison.previous.set(match, element);
+      afterTick = match.tick;
+    } else {
+      comparison.removed.push({ element, afterTick });
+    }
+  }
+  return comparison;
+}
+
+/**
+ * How an element of the new model differs from its old version, null if unchanged
+ */
+export function elementStatus(element: TimelineElement, comparison: TimelineComparison): ElementStatus | null {
+  const previous = comparison.previous.get(element);
+  if (!previous) return 'added';
+  if (!deepEqual(exampleOf(previous), exampleOf(element))) return 'changed';
+  return previous.name !== element.name ? 'renamed' : null;
+}
@@ -0,0 +1,413 @@
+/**
+ * Model Linter
+ *
+ * Semantic checks that go beyond the JSON Schema: dangling cross-references,
+ * duplicate ticks, events that happen before their producing command and
+ * commands that never produce anything.
+ *
+ * Each rule reports diagnostics with a rule id, severity and JSON Pointer into
+ * the model. This module is used by both server (CLI, live diagnostics) and
+ * client.
+ */
+
+import type {
+  GiraflowModel,
+  TimelineElement,
+  Event,
+  StateView,
+  Actor,
+  Command,
+  EventReference,
+} from './types.js';
+import { isEvent, isState, isActor, isCommand, getReadViews } from './types.js';
+import { toJsonPointer } from './json-pointer.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintDiagnostic {
+  ruleId: string;
+  severity: LintSeverity;
+  /** JSON Pointer to the offending value, e.g. "/timeline/3/sourcedFrom/0" */
+  pointer: string;
+  message: string;
+  /** Tick of the offending timeline element, if any */
+  tick?: number;
+}
+
+/**
+ * Payload of the typed "diagnostics" message on the server's /events channel.
+ */
+export interface DiagnosticsMessage {
+  watchedFile: string;
+  diagnostics: LintDiagnostic[];
+}
+
+export type LintFinding = Omit<LintDiagnostic, 'ruleId' | 'severity'>;
+
+export interface IndexedElement<T extends TimelineElement = TimelineElement> {
+  element: T;
+  index: number;
+}
+
+export interface LintContext {
+  model: GiraflowModel;
+  events: IndexedElement<Event>[];
+  states: IndexedElement<StateView>[];
+  actors: IndexedElement<Actor>[];
+  commands: IndexedElement<Command>[];
+  eventNames: Set<string>;
+  stateNames: Set<string>;
+  commandNames: Set<string>;
+  /** Commands keyed by their producedBy reference ("Name-Tick") */
+  commandsByRef: Map<string, IndexedElement<Command>>;
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check: (context: LintContext) => LintFinding[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Split a producedBy reference ("PlaceOrder-40") into command name and tick.
+ */
+export function parseProducedBy(ref: string): { name: string; tick: number } | null {
+  const match = ref.match(/^(.+)-(\d+)$/);
+  return match ? { name: match[1], tick: parseInt(match[2], 10) } : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reported instead of the rules' findings when the model's structure is broken
+ */
+export const INVALID_MODEL_RULE: Omit<LintRule, 'check'> = {
+  id: 'invalid-model',
+  severity: 'error',
+  description: 'The model must be an object with timeline and specification arrays the other rules can check',
+};
+
+/**
+ * Structural problems the rules cannot work with: a document that is not an
+ * object, lists that are not arrays, a producedBy that is not a string. The
+ * JSON Schema reports these in full; here they only stop the rules from
+ * running on a broken model.
+ */
+export function findShapeProblems(model: unknown): LintDiagnostic[] {
+  const findings: LintFinding[] = [];
+  const expect = (ok: boolean, message: string, ...tokens: (string | number)[]) => {
+    if (!ok) findings.push({ pointer: toJsonPointer(...tokens), message });
+  };
+  const optionalArray = (value: unknown) => value === undefined || Array.isArray(value);
+
+  if (!isObject(model)) {
+    expect(false, 'The model must be a JSON object');
+  } else {
+    const { timeline, specifications } = model;
+    expect(Array.isArray(timeline), '"timeline" must be an array', 'timeline');
+    expect(optionalArray(specifications), '"specifications" must be an array', 'specifications');
+
+    (Array.isArray(timeline) ? timeline : []).forEach((el: unknown, i) => {
+      if (!isObject(el)) return expect(false, 'Timeline elements must be objects', 'timeline', i);
+      if (el.type === 'state') expect(optionalArray(el.sourcedFrom), '"sourcedFrom" must be an array', 'timeline', i, 'sourcedFrom');
+      if (el.type === 'event') {
+        expect(el.producedBy === undefined || typeof el.producedBy === 'string', '"producedBy" must be a string', 'timeline', i, 'producedBy');
+      }
+    });
+
+    (Array.isArray(specifications) ? specifications : []).forEach((spec: unknown, s) => {
+      if (!isObject(spec)) return expect(false, 'Specifications must be objects', 'specifications', s);
+      if (!optionalArray(spec.scenarios)) return expect(false, '"scenarios" must be an array', 'specifications', s, 'scenarios');
+      ((spec.scenarios ?? []) as unknown[]).forEach((scenario, c) => {
+        if (!isObject(scenario)) return expect(false, 'Scenarios must be objects', 'specifications', s, 'scenarios', c);
+        if (!optionalArray(scenario.steps)) return expect(false, '"steps" must be an array', 'specifications', s, 'scenarios', c, 'steps');
+        ((scenario.steps ?? []) as unknown[]).forEach((step, k) => {
+          const base = ['specifications', s, 'scenarios', c, 'steps', k] as const;
+          if (!isObject(step)) return expect(false, 'Scenario steps must be objects', ...base);
+          expect(optionalArray(step.events), '"events" must be an array', ...base, 'events');
+          expect(optionalArray(step.produces), '"produces" must be an array', ...base, 'produces');
+        });
+      });
+    });
+  }
+
+  return findings.map((finding) => ({ ruleId: INVALID_MODEL_RULE.id, severity: INVALID_MODEL_RULE.severity, ...finding }));
+}
+
+function buildContext(model: GiraflowModel): LintContext {
+  const indexed = (model.timeline ?? []).map((element, index) => ({ element, index }));
+  const events = indexed.filter((e): e is IndexedElement<Event> => isEvent(e.element));
+  const states = indexed.filter((e): e is IndexedElement<StateView> => isState(e.element));
+  const actors = indexed.filter((e): e is IndexedElement<Actor> => isActor(e.element));
+  const commands = indexed.filter((e): e is IndexedElement<Command> => isCommand(e.element));
+
+  return {
+    model,
+    events,
+    states,
+    actors,
+    commands,
+    eventNames: new Set(events.map((e) => e.element.name)),
+    stateNames: new Set(states.map((e) => e.element.name)),
+    commandNames: new Set(commands.map((e) => e.element.name)),
+    commandsByRef: new Map(commands.map((c) => [`${c.element.name}-${c.element.tick}`, c])),
+  };
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const unknownSourceEvent: LintRule = {
+  id: 'unknown-source-event',
+  severity: 'error',
+  description: 'State views must only be sourced from events that occur on the timeline',
+  check: ({ states, eventNames }) =>
+    states.flatMap(({ element, index }) =>
+      (element.sourcedFrom ?? []).flatMap((name, i) =>
+        eventNames.has(name)
+          ? []
+          : [{
+              pointer: toJsonPointer('timeline', index, 'sourcedFrom', i),
+              message: `State "${element.name}" is sourced from unknown event "${name}"`,
+              tick: element.tick,
+            }]
+      )
+    ),
+};
+
+const unknownReadView: LintRule = {
+  id: 'unknown-read-view',
+  severity: 'error',
+  description: 'Actors must only read state views that occur on the timeline',
+  check: ({ actors, stateNames }) =>
+    actors.flatMap(({ element, index }) => {
+      const isList = Array.isArray(element.readsView);
+      return getReadViews(element).flatMap((name, i) =>
+        !name || stateNames.has(name)
+          ? []
+          : [{
+              pointer: isList
+                ? toJsonPointer('timeline', index, 'readsView', i)
+                : toJsonPointer('timeline', index, 'readsView'),
+              message: `Actor "${element.name}" reads unknown state view "${name}"`,
+              tick: element.tick,
+            }]
+      );
+    }),
+};
+
+const unknownSentCommand: LintRule = {
+  id: 'unknown-sent-command',
+  severity: 'error',
+  description: 'Actors must only send commands that occur on the timeline',
+  check: ({ actors, commandNames }) =>
+    actors.flatMap(({ element, index }) =>
+      !element.sendsCommand || commandNames.has(element.sendsCommand)
+        ? []
+        : [{
+            pointer: toJsonPointer('timeline', index, 'sendsCommand'),
+            message: `Actor "${element.name}" sends unknown command "${element.sendsCommand}"`,
+            tick: element.tick,
+          }]
+    ),
+};
+
+const unresolvedProducedBy: LintRule = {
+  id: 'unresolved-produced-by',
+  severity: 'error',
+  description: 'producedBy must reference an existing command as "CommandName-Tick"',
+  check: ({ events, commands, commandsByRef }) =>
+    events.flatMap(({ element, index }) => {
+      if (!element.producedBy || commandsByRef.has(element.producedBy)) return [];
+
+      const pointer = toJsonPointer('timeline', index, 'producedBy');
+      const ref = parseProducedBy(element.producedBy);
+      if (!ref) {
+        return [{
+          pointer,
+          message: `Event "${element.name}" has producedBy "${element.producedBy}", expected format "CommandName-Tick"`,
+          tick: element.tick,
+        }];
+      }
+
+      const otherTicks = commands
+        .filter((c) => c.element.name === ref.name)
+        .map((c) => c.element.tick);
+      const hint = otherTicks.length > 0 ? ` (found at tick ${otherTicks.join(', ')})` : '';
+      return [{
+        pointer,
+        message: `Event "${element.name}" is produced by "${element.producedBy}", but there is no command "${ref.name}" at tick ${ref.tick}${hint}`,
+        tick: element.tick,
+      }];
+    }),
+};
+
+const duplicateTick: LintRule = {
+  id: 'duplicate-tick',
+  severity: 'warning',
+  description: 'Each tick should be used by a single timeline element',
+  check: ({ model }) => {
+    const firstByTick = new Map<number, TimelineElement>();
+    const findings: LintFinding[] = [];
+    (model.timeline ?? []).forEach((element, index) => {
+      const first = firstByTick.get(element.tick);
+      if (first) {
+        findings.push({
+          pointer: toJsonPointer('timeline', index, 'tick'),
+          message: `Tick ${element.tick} of ${element.type} "${element.name}" is already used by ${first.type} "${first.name}"`,
+          tick: element.tick,
+        });
+      } else {
+        firstByTick.set(element.tick, element);
+      }
+    });
+    return findings;
+  },
+};
+
+const eventBeforeProducer: LintRule = {
+  id: 'event-before-producer',
+  severity: 'error',
+  description: 'Events must appear on the timeline after the command that produced them',
+  check: ({ events, commandsByRef }) =>
+    events.flatMap(({ element, index }) => {
+      const producer = element.producedBy ? commandsByRef.get(element.producedBy) : undefined;
+      if (!producer || element.tick > producer.element.tick) return [];
+      return [{
+        pointer: toJsonPointer('timeline', index, 'tick'),
+        message: `Event "${element.name}" at tick ${element.tick} appears before its producing command "${producer.element.name}" at tick ${producer.element.tick}`,
+        tick: element.tick,
+      }];
+    }),
+};
+
+const commandWithoutEvents: LintRule = {
+  id: 'command-without-events',
+  severity: 'warning',
+  description: 'Commands should produce at least one event',
+  check: ({ events, commands }) => {
+    const producedRefs = new Set(events.map((e) => e.element.producedBy).filter(Boolean));
+    return commands.flatMap(({ element, index }) =>
+      producedRefs.has(`${element.name}-${element.tick}`)
+        ? []
+        : [{
+            pointer: toJsonPointer('timeline', index),
+            message: `Command "${element.name}" at tick ${element.tick} produces no events`,
+            tick: element.tick,
+          }]
+    );
+  },
+};
+
+const unknownSpecificationTarget: LintRule = {
+  id: 'unknown-specification-target',
+  severity: 'warning',
+  description: 'Specifications must describe a command or state view that occurs on the timeline',
+  check: ({ model, commandNames, stateNames }) =>
+    (model.specifications ?? []).flatMap((spec, index) => {
+      const names = spec.type === 'command' ? commandNames : stateNames;
+      if (names.has(spec.name)) return [];
+      const label = spec.type === 'command' ? 'command' : 'state view';
+      return [{
+        pointer: toJsonPointer('specifications', index, 'name'),
+        message: `Specification "${spec.name}" refers to unknown ${label}`,
+      }];
+    }),
+};
+
+const unknownScenarioEvent: LintRule = {
+  id: 'unknown-scenario-event',
+  severity: 'warning',
+  description: 'Scenarios should only reference events that occur on the timeline',
+  check: ({ model, eventNames }) => {
+    const findings: LintFinding[] = [];
+    const checkRef = (ref: EventReference | undefined, ...tokens: (string | number)[]) => {
+      if (ref?.event && !eventNames.has(ref.event)) {
+        findings.push({
+          pointer: toJsonPointer('specifications', ...tokens, 'event'),
+          message: `Scenario references unknown event "${ref.event}"`,
+        });
+      }
+    };
+
+    (model.specifications ?? []).forEach((spec, s) => {
+      (spec.scenarios ?? []).forEach((scenario, c) => {
+        (scenario.steps ?? []).forEach((step, k) => {
+          const base = [s, 'scenarios', c, 'steps', k] as const;
+          if ('given' in step) {
+            checkRef(step.given, ...base, 'given');
+          } else {
+            step.events?.forEach((ref, i) => checkRef(ref, ...base, 'events', i));
+            step.produces?.forEach((ref, i) => checkRef(ref, ...base, 'produces', i));
+          }
+        });
+      });
+    });
+    return findings;
+  },
+};
+
+/**
+ * All built-in lint rules, in reporting order.
+ */
+export const LINT_RULES: LintRule[] = [
+  unknownSourceEvent,
+  unknownReadView,
+  unknownSentCommand,
+  unresolvedProducedBy,
+  duplicateTick,
+  eventBeforeProducer,
+  commandWithoutEvents,
+  unknownSpecificationTarget,
+  unknownScenarioEvent,
+];
+
+// ============================================================================
+// Lint Function
+// ============================================================================
+
+/**
+ * Run lint rules against a model.
+ *
+ * Diagnostics are sorted by their position in the document (JSON Pointer order).
+ * A model the rules cannot work with only gets its shape problems reported.
+ */
+export function lintModel(model: GiraflowModel, rules: LintRule[] = LINT_RULES): LintDiagnostic[] {
+  const shapeProblems = findShapeProblems(model);
+  if (shapeProblems.length > 0) return shapeProblems;
+
+  const context = buildContext(model);
+  const diagnostics = rules.flatMap((rule) =>
+    rule.check(context).map((finding) => ({
+      ruleId: rule.id,
+      severity: rule.severity,
+      ...finding,
+    }))
+  );
+
+  return diagnostics.sort((a, b) =>
+    a.pointer.localeCompare(b.pointer, undefined, { numeric: true })
+  );
+}
+
+/**
+ * Count diagnostics by severity.
+ */
+export function countDiagnostics(diagnostics: LintDiagnostic[]): { errors: number; warnings: number } {
+  return {
+    errors: diagnostics.filter((d) => d.severity === 'error').length,
+    warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+  };
+}
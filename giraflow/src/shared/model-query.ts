@@ -0,0 +1,233 @@
+/**
+ * Model Query
+ *
+ * Full-text search over a model with structured filters:
+ *   "email"                     names, example keys/values, scenario names,
+ *                               attachment labels and wireframe file names
+ *   "type:event system:Payment" only events of the Payment system
+ *   "order in:example tick:100..200"
+ *
+ * Filters: type (event, state, command, actor), system (events), role
+ * (actors), tick (a number or a range from..to), in (name, example, scenario,
+ * attachment, wireframe). Terms and values with spaces are quoted: "order id",
+ * system:"Order Service".
+ * Every search term has to match, case-insensitively.
+ *
+ * This module is used by both client (command palette) and CLI (`giraflow query`).
+ */
+
+import type { GiraflowModel, TimelineElement } from './types.js';
+import { isActor, isEvent } from './types.js';
+import { toJsonPointer } from './json-pointer.js';
+
+export type QueryField = 'name' | 'example' | 'scenario' | 'attachment' | 'wireframe';
+
+export const QUERY_FIELDS: QueryField[] = ['name', 'example', 'scenario', 'attachment', 'wireframe'];
+
+export const QUERY_FILTERS = ['type', 'system', 'role', 'tick', 'in'] as const;
+
+export type QueryFilterKey = (typeof QUERY_FILTERS)[number];
+
+export interface QueryFilter {
+  key: QueryFilterKey;
+  value: string;
+}
+
+export interface ParsedQuery {
+  /** Lower-cased search terms */
+  terms: string[];
+  filters: QueryFilter[];
+}
+
+export interface QueryResult {
+  /** A timeline element, or a scenario of a specification */
+  kind: 'element' | 'scenario';
+  /** Element type; for scenarios the type of the slice */
+  type: TimelineElement['type'];
+  /** Element name; for scenarios the name of the slice */
+  name: string;
+  /** Elements only */
+  tick?: number;
+  /** Scenarios only: position in the specification */
+  scenarioIndex?: number;
+  /** Where the query matched */
+  field: QueryField;
+  /** The matched text: a name, "path: value" of an example, a label or a file name */
+  text: string;
+  /** JSON Pointer of the match */
+  pointer: string;
+  /** Higher is better; names rank above payloads */
+  score: number;
+}
+
+interface Candidate {
+  field: QueryField;
+  text: string;
+  pointer: string;
+}
+
+const ELEMENT_TYPES = ['event', 'state', 'command', 'actor'];
+
+const FIELD_SCORES: Record<QueryField, number> = {
+  name: 60,
+  scenario: 50,
+  attachment: 35,
+  wireframe: 35,
+  example: 30,
+};
+
+/**
+ * Split a query into search terms and filters. "key:value" with an unknown
+ * key is a search term (e.g. a URL).
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const result: ParsedQuery = { terms: [], filters: [] };
+  for (const [, token] of query.matchAll(/((?:[^\s"]+|"[^"]*")+)/g)) {
+    const match = token.match(/^([a-z]+):(.+)$/i);
+    const key = match?.[1].toLowerCase() as QueryFilterKey | undefined;
+    if (match && key && QUERY_FILTERS.includes(key)) {
+      result.filters.push({ key, value: unquote(match[2]) });
+    } else {
+      const term = unquote(token).toLowerCase();
+      if (term) result.terms.push(term);
+    }
+  }
+  return result;
+}
+
+/**
+ * Why the filters of a query cannot match anything, or null if they can
+ */
+export function findQueryProblem(query: ParsedQuery): string | null {
+  for (const { key, value } of query.filters) {
+    const wanted = value.toLowerCase();
+    if (key === 'type' && !ELEMENT_TYPES.includes(wanted)) {
+      return `Unknown type "${value}", use one of ${ELEMENT_TYPES.join(', ')}`;
+    }
+    if (key === 'in' && !QUERY_FIELDS.includes(wanted as QueryField)) {
+      return `Unknown field "${value}", use one of ${QUERY_FIELDS.join(', ')}`;
+    }
+    if (key === 'tick' && !/^(\d+|\d*\.\.\d*)$/.test(value)) {
+      return `Invalid tick "${value}", use a number or a range like 100..200`;
+    }
+  }
+  return null;
+}
+
+function unquote(text: string): string {
+  return text.replace(/"/g, '');
+}
+
+function matchesTick(tick: number, value: string): boolean {
+  const parts = value.split('..');
+  if (parts.length === 1) return tick === Number(value);
+  const [from, to] = parts.map((part) => (part === '' ? NaN : Number(part)));
+  return parts.length === 2 && (isNaN(from) || tick >= from) && (isNaN(to) || tick <= to);
+}
+
+function matchesFilters(
+  filters: QueryFilter[],
+  target: { type: TimelineElement['type']; element?: TimelineElement },
+  field: QueryField
+): boolean {
+  return filters.every(({ key, value }) => {
+    const wanted = value.toLowerCase();
+    const el = target.element;
+    switch (key) {
+      case 'type':
+        return target.type === wanted;
+      case 'system':
+        return !!el && isEvent(el) && el.system?.toLowerCase() === wanted;
+      case 'role':
+        return !!el && isActor(el) && el.role?.toLowerCase() === wanted;
+      case 'tick':
+        return !!el && matchesTick(el.tick, value);
+      case 'in':
+        return field === wanted;
+    }
+  });
+}
+
+/**
+ * "path: value" for every leaf of an example payload
+ */
+function exampleCandidates(value: unknown, tokens: (string | number)[], path: string[]): Candidate[] {
+  if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, child]) =>
+      exampleCandidates(child, [...tokens, key], [...path, key])
+    );
+  }
+  return [{ field: 'example', text: `${path.join('.')}: ${JSON.stringify(value)}`, pointer: toJsonPointer(...tokens) }];
+}
+
+function elementCandidates(el: TimelineElement, index: number): Candidate[] {
+  const candidates: Candidate[] = [{ field: 'name', text: el.name, pointer: toJsonPointer('timeline', index, 'name') }];
+  if ('example' in el && el.example !== undefined) {
+    candidates.push(...exampleCandidates(el.example, ['timeline', index, 'example'], []));
+  }
+  if ('attachments' in el) {
+    el.attachments?.forEach((attachment, i) => {
+      candidates.push({ field: 'attachment', text: attachment.label, pointer: toJsonPointer('timeline', index, 'attachments', i, 'label') });
+    });
+  }
+  if (isActor(el)) {
+    el.wireframes?.forEach((wireframe, i) => {
+      candidates.push({ field: 'wireframe', text: wireframe, pointer: toJsonPointer('timeline', index, 'wireframes', i) });
+    });
+  }
+  return candidates;
+}
+
+/**
+ * The candidate to show for a result, or null if a term matches none of the
+ * candidates. Every term has to match one of them.
+ */
+function bestCandidate(candidates: Candidate[], terms: string[]): { candidate: Candidate; score: number } | null {
+  if (candidates.length === 0) return null;
+  if (terms.length === 0) return { candidate: candidates[0], score: FIELD_SCORES[candidates[0].field] };
+
+  const texts = candidates.map((c) => c.text.toLowerCase());
+  if (!terms.every((term) => texts.some((text) => text.includes(term)))) return null;
+
+  let best: { candidate: Candidate; score: number } | null = null;
+  for (const [i, candidate] of candidates.entries()) {
+    const matched = terms.filter((term) => texts[i].includes(term));
+    if (matched.length === 0) continue;
+    let score = FIELD_SCORES[candidate.field] + 10 * matched.length;
+    if (candidate.field === 'name' && matched.some((term) => texts[i] === term)) score += 40;
+    else if (candidate.field === 'name' && matched.some((term) => texts[i].startsWith(term))) score += 20;
+    if (!best || score > best.score) best = { candidate, score };
+  }
+  return best;
+}
+
+/**
+ * Search a model. Results are sorted by score, then by tick.
+ */
+export function queryModel(model: GiraflowModel, query: string | ParsedQuery): QueryResult[] {
+  const { terms, filters } = typeof query === 'string' ? parseQuery(query) : query;
+  const results: QueryResult[] = [];
+
+  (model.timeline ?? []).forEach((el, index) => {
+    const candidates = elementCandidates(el, index).filter((c) => matchesFilters(filters, { type: el.type, element: el }, c.field));
+    const best = bestCandidate(candidates, terms);
+    if (!best) return;
+    results.push({ kind: 'element', type: el.type, name: el.name, tick: el.tick, ...best.candidate, score: best.score });
+  });
+
+  (model.specifications ?? []).forEach((spec, i) => {
+    spec.scenarios.forEach((scenario, j) => {
+      const candidate: Candidate = {
+        field: 'scenario',
+        text: scenario.name,
+        pointer: toJsonPointer('specifications', i, 'scenarios', j, 'name'),
+      };
+      if (!matchesFilters(filters, { type: spec.type }, 'scenario')) return;
+      const best = bestCandidate([candidate], terms);
+      if (!best) return;
+      results.push({ kind: 'scenario', type: spec.type, name: spec.name, scenarioIndex: j, ...candidate, score: best.score });
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score || (a.tick ?? Infinity) - (b.tick ?? Infinity));
+}
@@ -0,0 +1,174 @@
+/**
+ * Rename
+ *
+ * Renames an event, state view, command or actor together with every
+ * reference to it:
+ * - events: sourcedFrom of state views and the events in specification
+ *   scenarios (given.event, events[].event, produces[].event)
+ * - commands: sendsCommand of actors, the "Name-Tick" producedBy of events
+ *   and the command's specification
+ * - state views: readsView of actors and the state view's specification
+ * - actors: optionally the wireframe files named after the actor
+ *   ("user-2.html", "wireframes/admin-orders.html"). findWireframeRenames
+ *   plans the moves; only the paths of files that were actually moved are
+ *   updated in the model.
+ *
+ * This module is used by both client (rename action) and CLI (`giraflow rename`).
+ */
+
+import type { GiraflowModel, TimelineElement, CommandScenario, StateViewScenario } from './types.js';
+import { isActor, isEvent, isState } from './types.js';
+import { parseProducedBy } from './model-linter.js';
+import { toJsonPointer } from './json-pointer.js';
+
+export type RenameType = TimelineElement['type'];
+
+export const RENAME_TYPES: RenameType[] = ['event', 'state', 'command', 'actor'];
+
+export interface RenameChange {
+  /** JSON Pointer of the changed value */
+  pointer: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * A wireframe file to move, paths relative to the asset folder
+ */
+export interface WireframeRename {
+  from: string;
+  to: string;
+}
+
+export interface RenameResult {
+  model: GiraflowModel;
+  changes: RenameChange[];
+}
+
+export interface RenameOptions {
+  /** Wireframe files of the renamed actor that were moved; their paths are updated */
+  wireframes?: WireframeRename[];
+}
+
+/**
+ * File name prefix of an actor's wireframes: "Image Generator" → "image-generator"
+ */
+export function wireframePrefix(actorName: string): string {
+  return actorName
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase();
+}
+
+function renameWireframe(path: string, from: string, to: string): string | null {
+  const slash = path.lastIndexOf('/') + 1;
+  const fileName = path.slice(slash);
+  const prefix = wireframePrefix(from);
+  if (fileName !== `${prefix}.html` && !fileName.startsWith(`${prefix}-`)) return null;
+  return path.slice(0, slash) + wireframePrefix(to) + fileName.slice(prefix.length);
+}
+
+/**
+ * Wireframe files to move when renaming an actor: those whose file name
+ * starts with the actor name. Empty for other element types.
+ */
+export function findWireframeRenames(model: GiraflowModel, type: RenameType, from: string, to: string): WireframeRename[] {
+  if (type !== 'actor') return [];
+  const renames: WireframeRename[] = [];
+  for (const el of model.timeline) {
+    if (!isActor(el) || el.name !== from) continue;
+    for (const path of el.wireframes ?? []) {
+      const renamed = renameWireframe(path, from, to);
+      if (renamed !== null && !renames.some((w) => w.from === path)) renames.push({ from: path, to: renamed });
+    }
+  }
+  return renames;
+}
+
+/**
+ * Why a rename cannot be done, or null if it can
+ */
+export function findRenameProblem(model: GiraflowModel, type: RenameType, from: string, to: string): string | null {
+  const names = new Set(model.timeline.filter((el) => el.type === type).map((el) => el.name));
+  if (!to.trim()) return 'The new name is empty';
+  if (from === to) return 'The new name is the same as the old one';
+  if (!names.has(from)) return `There is no ${type} "${from}"`;
+  if (names.has(to)) return `There already is a ${type} "${to}"`;
+  return null;
+}
+
+/**
+ * Rename an element and every reference to it. The model is not modified.
+ */
+export function renameElement(
+  model: GiraflowModel,
+  type: RenameType,
+  from: string,
+  to: string,
+  options: RenameOptions = {}
+): RenameResult {
+  const result = JSON.parse(JSON.stringify(model)) as GiraflowModel;
+  const changes: RenameChange[] = [];
+
+  const set = <T extends object>(target: T, key: keyof T, value: string, ...pointer: (string | number)[]) => {
+    changes.push({ pointer: toJsonPointer(...pointer), before: String(target[key]), after: value });
+    (target as Record<keyof T, unknown>)[key] = value;
+  };
+
+  result.timeline.forEach((el, i) => {
+    if (el.type === type && el.name === from) {
+      set(el, 'name', to, 'timeline', i, 'name');
+      if (isActor(el)) {
+        el.wireframes?.forEach((path, j) => {
+          const moved = options.wireframes?.find((w) => w.from === path);
+          if (moved) set(el.wireframes!, j, moved.to, 'timeline', i, 'wireframes', j);
+        });
+      }
+    }
+
+    if (type === 'event' && isState(el)) {
+      el.sourcedFrom.forEach((source, j) => {
+        if (source === from) set(el.sourcedFrom, j, to, 'timeline', i, 'sourcedFrom', j);
+      });
+    } else if (type === 'command' && isActor(el) && el.sendsCommand === from) {
+      set(el, 'sendsCommand', to, 'timeline', i, 'sendsCommand');
+    } else if (type === 'command' && isEvent(el) && el.producedBy) {
+      const ref = parseProducedBy(el.producedBy);
+      if (ref?.name === from) set(el, 'producedBy', `${to}-${ref.tick}`, 'timeline', i, 'producedBy');
+    } else if (type === 'state' && isActor(el)) {
+      if (Array.isArray(el.readsView)) {
+        el.readsView.forEach((view, j) => {
+          if (view === from) set(el.readsView as string[], j, to, 'timeline', i, 'readsView', j);
+        });
+      } else if (el.readsView === from) {
+        set(el, 'readsView', to, 'timeline', i, 'readsView');
+      }
+    }
+  });
+
+  (result.specifications ?? []).forEach((spec, i) => {
+    if (spec.type === type && spec.name === from) {
+      set(spec, 'name', to, 'specifications', i, 'name');
+    }
+    if (type !== 'event') return;
+
+    spec.scenarios.forEach((scenario, j) => {
+      if (spec.type === 'command') {
+        (scenario as CommandScenario).steps?.forEach((step, k) => {
+          for (const key of ['events', 'produces'] as const) {
+            step[key]?.forEach((ref, l) => {
+              if (ref.event === from) set(ref, 'event', to, 'specifications', i, 'scenarios', j, 'steps', k, key, l, 'event');
+            });
+          }
+        });
+      } else {
+        (scenario as StateViewScenario).steps?.forEach((step, k) => {
+          if (step.given?.event === from) set(step.given, 'event', to, 'specifications', i, 'scenarios', j, 'steps', k, 'given', 'event');
+        });
+      }
+    });
+  });
+
+  return { model: result, changes };
+}
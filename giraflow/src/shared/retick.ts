@@ -0,0 +1,117 @@
+/**
+ * Retick
+ *
+ * Renumbers the ticks of a timeline with an even step and rewrites the
+ * producedBy references ("CommandName-Tick") to the commands' new ticks, so
+ * steps can be inserted once the gaps between ticks have run out.
+ *
+ * This module is used by both client (insert in the timeline view) and CLI
+ * (`giraflow retick`).
+ */
+
+import type { GiraflowModel, TimelineElement, Event, StateView, Command, Actor } from './types.js';
+import { isCommand, isEvent } from './types.js';
+
+export const DEFAULT_TICK_STEP = 10;
+
+/** An element to insert; its tick is chosen by insertElement */
+export type NewTimelineElement = Omit<Event, 'tick'> | Omit<StateView, 'tick'> | Omit<Command, 'tick'> | Omit<Actor, 'tick'>;
+
+export interface RetickResult {
+  model: GiraflowModel;
+  /** Number of producedBy references that now point at a new tick */
+  updatedReferences: number;
+  /** producedBy references that matched no command and were left as they are */
+  unresolved: string[];
+}
+
+export interface InsertResult {
+  model: GiraflowModel;
+  /** Position of the new element in the timeline array */
+  index: number;
+  tick: number;
+  /** Whether the timeline had to be reticked to make room */
+  reticked: boolean;
+}
+
+/**
+ * The new tick of each distinct tick: start, start + step, start + 2 * step,
+ * ... in tick order
+ */
+function mapTicks(timeline: TimelineElement[], step: number, start: number): Map<number, number> {
+  const ticks = [...new Set(timeline.map((el) => el.tick))].sort((a, b) => a - b);
+  return new Map(ticks.map((tick, i) => [tick, start + i * step]));
+}
+
+/**
+ * Give the ticks of the timeline the values start, start + step, start +
+ * 2 * step, ... in tick order. Elements that share a tick keep sharing one;
+ * the timeline array keeps its order.
+ */
+export function retickModel(model: GiraflowModel, step = DEFAULT_TICK_STEP, start = step): RetickResult {
+  const timeline = model.timeline ?? [];
+  const newTicks = mapTicks(timeline, step, start);
+
+  const commandRefs = new Map<string, string>();
+  for (const command of timeline.filter(isCommand)) {
+    commandRefs.set(`${command.name}-${command.tick}`, `${command.name}-${newTicks.get(command.tick)}`);
+  }
+
+  let updatedReferences = 0;
+  const unresolved: string[] = [];
+  const reticked = timeline.map((element): TimelineElement => {
+    const tick = newTicks.get(element.tick)!;
+    if (!isEvent(element) || !element.producedBy) return { ...element, tick };
+
+    const producedBy = commandRefs.get(element.producedBy);
+    if (producedBy === undefined) {
+      unresolved.push(element.producedBy);
+      return { ...element, tick };
+    }
+    if (producedBy !== element.producedBy) updatedReferences++;
+    return { ...element, tick, producedBy };
+  });
+
+  return { model: { ...model, timeline: reticked }, updatedReferences, unresolved };
+}
+
+/**
+ * Insert an element after the element at afterTick (null: before the first
+ * element), halfway to the next tick. If there is no free tick in between,
+ * the timeline is reticked first.
+ */
+export function insertElement(
+  model: GiraflowModel,
+  element: NewTimelineElement,
+  afterTick: number | null,
+  step = DEFAULT_TICK_STEP
+): InsertResult {
+  const free = findFreeTick(model, afterTick, step);
+  if (free !== null) {
+    return { ...insertAt(model, element, free), reticked: false };
+  }
+
+  // Ticks keep their order, so afterTick moves to the new tick of the last tick up to it
+  const newTicks = mapTicks(model.timeline, step, step);
+  const reticked = retickModel(model, step).model;
+  const previous = [...newTicks.keys()].filter((tick) => afterTick !== null && tick <= afterTick).pop();
+  const newAfterTick = previous === undefined ? null : newTicks.get(previous)!;
+  return { ...insertAt(reticked, element, findFreeTick(reticked, newAfterTick, step)!), reticked: true };
+}
+
+function findFreeTick(model: GiraflowModel, afterTick: number | null, step: number): number | null {
+  const previous = afterTick ?? 0;
+  const next = model.timeline.map((el) => el.tick).filter((tick) => tick > previous).sort((a, b) => a - b)[0];
+  if (next === undefined) return previous + step;
+  if (next - previous < 2) return null;
+  return previous + Math.floor((next - previous) / 2);
+}
+
+function insertAt(model: GiraflowModel, element: NewTimelineElement, tick: number) {
+  const { type, name, ...rest } = element;
+  const inserted = { type, name, tick, ...rest } as TimelineElement;
+  const position = model.timeline.findIndex((el) => el.tick > tick);
+  const index = position === -1 ? model.timeline.length : position;
+  const timeline = [...model.timeline.slice(0, index), inserted, ...model.timeline.slice(index)];
+  return { model: { ...model, timeline }, index, tick };
+}
@@ -0,0 +1,146 @@
+/**
+ * Scenario Results
+ *
+ * Result types of executed scenarios (`giraflow test`) plus the comparison
+ * helpers used to check actual against expected values.
+ *
+ * This module is used by both server (test runner) and client (result overlay).
+ */
+
+import { toJsonPointer } from './json-pointer.js';
+
+// ============================================================================
+// Interfaces
+// ============================================================================
+
+export type ScenarioStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ValueDifference {
+  /** JSON Pointer into the compared value, "" for the value itself */
+  pointer: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface StepResult {
+  index: number;
+  status: ScenarioStatus;
+  message?: string;
+  expected?: unknown;
+  actual?: unknown;
+  differences?: ValueDifference[];
+}
+
+export interface ScenarioResult {
+  sliceType: 'state' | 'command';
+  sliceName: string;
+  /** Scenario name, e.g. "Timeline Scenario" */
+  scenario: string;
+  /** Index into Slice.scenarios (Timeline Scenario first, then spec scenarios) */
+  scenarioIndex: number;
+  status: ScenarioStatus;
+  /** Reason for skipped scenarios, or the failure message of a JUnit test case */
+  message?: string;
+  /** Raw failure output (JUnit test cases carry no step results) */
+  details?: string;
+  steps: StepResult[];
+  durationMs: number;
+}
+
+/**
+ * Giraflow test results file (`giraflow test -f json`)
+ */
+export interface TestResultsFile {
+  generatedAt: string;
+  results: ScenarioResult[];
+}
+
+/**
+ * Payload of the typed "test-results" message on the server's /events channel.
+ */
+export interface TestResultsMessage {
+  watchedFile: string;
+  testResults: TestResultsFile | null;
+}
+
+/**
+ * File names picked up from the model's asset folder, in order of preference
+ * (Giraflow JSON, then JUnit XML).
+ */
+export const TEST_RESULTS_FILES = ['test-results.json', 'test-results.xml'];
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural equality for JSON-like values (object key order is ignored).
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return diffValues(a, b).length === 0;
+}
+
+/**
+ * List the differences between an expected and an actual JSON-like value.
+ */
+export function diffValues(expected: unknown, actual: unknown, tokens: (string | number)[] = []): ValueDifference[] {
+  if (Object.is(expected, actual)) return [];
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    const differences: ValueDifference[] = [];
+    for (let i = 0; i < length; i++) {
+      differences.push(...diffValues(expected[i], actual[i], [...tokens, i]));
+    }
+    return differences;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap((key) => diffValues(expected[key], actual[key], [...tokens, key]));
+  }
+
+  return [{ pointer: toJsonPointer(...tokens), expected, actual }];
+}
+
+/**
+ * Overall status of a list of step results: failed if any step failed,
+ * passed if at least one step passed, skipped otherwise.
+ */
+export function summarizeSteps(steps: StepResult[]): ScenarioStatus {
+  if (steps.some((s) => s.status === 'failed')) return 'failed';
+  if (steps.some((s) => s.status === 'passed')) return 'passed';
+  return 'skipped';
+}
+
+/**
+ * Find the result of a slice scenario. Scenarios are matched by name; the
+ * scenario index decides between scenarios sharing a name.
+ */
+export function findScenarioResult(
+  results: ScenarioResult[],
+  sliceType: 'state' | 'command',
+  sliceName: string,
+  scenarioName: string,
+  scenarioIndex: number
+): ScenarioResult | undefined {
+  const candidates = results.filter(
+    (r) => r.sliceType === sliceType && r.sliceName === sliceName && r.scenario === scenarioName
+  );
+  return candidates.find((r) => r.scenarioIndex === scenarioIndex) ?? candidates[0];
+}
+
+/**
+ * Count scenario results by status.
+ */
+export function countResults(results: ScenarioResult[]): Record<ScenarioStatus, number> {
+  return {
+    passed: results.filter((r) => r.status === 'passed').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Schema Error Refinement
+ *
+ * AJV reports errors for every branch of a `oneOf`, so a single typo in a
+ * timeline element yields errors for Event, StateView, Actor and Command at
+ * once. This module keeps only the errors of the branch selected by the
+ * element's `type` discriminator and turns them into readable messages.
+ *
+ * This module is used by both server (CLI validation) and client (editor).
+ */
+
+import type { ErrorObject } from 'ajv';
+import { escapePointerToken } from './json-pointer.js';
+
+export interface SchemaError {
+  /** JSON Pointer to the offending value */
+  pointer: string;
+  message: string;
+}
+
+const TIMELINE_DEFS: Record<string, string> = {
+  event: 'Event',
+  state: 'StateView',
+  actor: 'Actor',
+  command: 'Command',
+};
+
+const SPECIFICATION_DEFS: Record<string, string> = {
+  command: 'CommandSpecification',
+  state: 'StateSpecification',
+};
+
+interface Discriminator {
+  /** Instance path of the discriminated object */
+  path: string;
+  /** Schema owners of all alternatives */
+  alternatives: string[];
+  /** Owner of the alternative selected by the discriminator */
+  selected: string;
+}
+
+type SchemaOwners = WeakMap<object, string>;
+
+const ownersCache = new WeakMap<object, SchemaOwners>();
+
+function getAt(data: unknown, tokens: string[]): unknown {
+  let current = data;
+  for (const token of tokens) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+}
+
+/**
+ * Map every sub-schema object to the $defs entry it belongs to.
+ *
+ * AJV inlines $refs, so an error's schemaPath does not reveal which oneOf
+ * alternative produced it; its parentSchema (with `verbose: true`) does.
+ * Command scenario step alternatives are tracked individually.
+ */
+function getSchemaOwners(schema: object): SchemaOwners {
+  const cached = ownersCache.get(schema);
+  if (cached) return cached;
+
+  const owners: SchemaOwners = new WeakMap();
+  const walk = (node: unknown, owner: string): void => {
+    if (node === null || typeof node !== 'object') return;
+    owners.set(node, owner);
+    for (const child of Object.values(node)) walk(child, owner);
+  };
+
+  const defs = (schema as { $defs?: Record<string, unknown> }).$defs ?? {};
+  for (const [name, def] of Object.entries(defs)) {
+    walk(def, name);
+  }
+  const stepAlternatives = (defs.CommandScenarioStep as { oneOf?: unknown[] } | undefined)?.oneOf ?? [];
+  stepAlternatives.forEach((alternative, i) => walk(alternative, `CommandScenarioStep/${i}`));
+
+  ownersCache.set(schema, owners);
+  return owners;
+}
+
+/**
+ * Determine which oneOf alternatives apply to the object an error belongs to.
+ */
+function findDiscriminators(instancePath: string, data: unknown): Discriminator[] {
+  const result: Discriminator[] = [];
+  const tokens = instancePath.split('/').slice(1);
+
+  if (tokens[0] === 'timeline' && tokens.length >= 2) {
+    const type = (getAt(data, tokens.slice(0, 2)) as { type?: string } | undefined)?.type;
+    const def = type ? TIMELINE_DEFS[type] : undefined;
+    if (def) {
+      result.push({
+        path: `/${tokens.slice(0, 2).join('/')}`,
+        alternatives: Object.values(TIMELINE_DEFS),
+        selected: def,
+      });
+    }
+  }
+
+  if (tokens[0] === 'specifications' && tokens.length >= 2) {
+    const type = (getAt(data, tokens.slice(0, 2)) as { type?: string } | undefined)?.type;
+    const def = type ? SPECIFICATION_DEFS[type] : undefined;
+    if (def) {
+      result.push({
+        path: `/${tokens.slice(0, 2).join('/')}`,
+        alternatives: Object.values(SPECIFICATION_DEFS),
+        selected: def,
+      });
+    }
+
+    // Command scenario steps: events-only | command (produces) | command (fails)
+    if (tokens[2] === 'scenarios' && tokens[4] === 'steps' && tokens.length >= 6) {
+      const step = getAt(data, tokens.slice(0, 6)) as { type?: string; fails?: unknown } | undefined;
+      const branch = step?.type === 'events-only' ? 0 : step?.type === 'command' ? (step.fails !== undefined ? 2 : 1) : -1;
+      if (branch >= 0) {
+        result.push({
+          path: `/${tokens.slice(0, 6).join('/')}`,
+          alternatives: [0, 1, 2].map((i) => `CommandScenarioStep/${i}`),
+          selected: `CommandScenarioStep/${branch}`,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+function isFromOtherAlternative(error: ErrorObject, discriminators: Discriminator[], owners: SchemaOwners): boolean {
+  const owner = error.parentSchema ? owners.get(error.parentSchema) : undefined;
+  return discriminators.some(
+    (d) =>
+      (error.keyword === 'oneOf' && error.instancePath === d.path) ||
+      (owner !== undefined && owner !== d.selected && d.alternatives.includes(owner))
+  );
+}
+
+function describeError(error: ErrorObject): SchemaError {
+  const params = error.params as Record<string, unknown>;
+
+  switch (error.keyword) {
+    case 'required':
+      return {
+        pointer: error.instancePath,
+        message: `missing required property "${params.missingProperty}"`,
+      };
+    case 'additionalProperties':
+      return {
+        pointer: `${error.instancePath}/${escapePointerToken(String(params.additionalProperty))}`,
+        message: `unknown property "${params.additionalProperty}"`,
+      };
+    case 'const':
+      return {
+        pointer: error.instancePath,
+        message: `must be ${JSON.stringify(params.allowedValue)}`,
+      };
+    case 'enum':
+      return {
+        pointer: error.instancePath,
+        message: `must be one of: ${(params.allowedValues as unknown[]).map((v) => JSON.stringify(v)).join(', ')}`,
+      };
+    default:
+      return { pointer: error.instancePath, message: error.message ?? 'is invalid' };
+  }
+}
+
+/**
+ * Reduce raw AJV errors to the ones relevant for the actual element types,
+ * with readable messages and without duplicates.
+ *
+ * The validator must be compiled from `schema` with `verbose: true`.
+ */
+export function refineSchemaErrors(errors: ErrorObject[], data: unknown, schema: object): SchemaError[] {
+  const owners = getSchemaOwners(schema);
+  const seen = new Set<string>();
+  const result: SchemaError[] = [];
+
+  for (const error of errors) {
+    if (isFromOtherAlternative(error, findDiscriminators(error.instancePath, data), owners)) continue;
+
+    // Unknown element type: every alternative fails, report the type only
+    const item = error.instancePath.match(/^\/timeline\/\d+/)?.[0];
+    const type = item ? (getAt(data, item.split('/').slice(1)) as { type?: unknown } | undefined)?.type : undefined;
+    const described = item && !(typeof type === 'string' && type in TIMELINE_DEFS)
+      ? {
+          pointer: `${item}/type`,
+          message: `must be one of: ${Object.keys(TIMELINE_DEFS).map((t) => JSON.stringify(t)).join(', ')}`,
+        }
+      : describeError(error);
+    const key = `${described.pointer}\n${described.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(described);
+  }
+
+  return result;
+}
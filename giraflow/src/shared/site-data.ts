@@ -0,0 +1,43 @@
+/**
+ * Static Site Data
+ *
+ * `giraflow build-site` bakes the model into the viewer's index.html as a JSON
+ * script element, so the site works from file:// without fetching anything.
+ * The shape matches the server's /api/model response plus the slices.
+ * `giraflow export report` uses the same page with the report view only.
+ *
+ * This module is used by both server (build-site, export report) and client (main-static.ts).
+ */
+
+import type { GiraflowModel, ViewMode } from './types.js';
+import type { SliceViewModel } from './slice-builder.js';
+import type { LintDiagnostic } from './model-linter.js';
+import type { TestResultsFile } from './scenario-results.js';
+
+export interface SiteData {
+  model: GiraflowModel;
+  slices: SliceViewModel;
+  diagnostics: LintDiagnostic[];
+  testResults: TestResultsFile | null;
+  /** File name of the model the site was built from */
+  watchedFile: string;
+  /** Path from the page to the model's asset folder (wireframes) */
+  assetPath: string;
+  /** Path from the page to the attachments (paths relative to the model file) */
+  attachmentPath: string;
+  /** Show only this view, without header and navigation */
+  view?: ViewMode;
+}
+
+/** Id of the <script type="application/json"> element holding the SiteData */
+export const SITE_DATA_ELEMENT_ID = 'giraflow-site';
+
+/** Folder of the site that attachments are copied to (paths relative to the model file) */
+export const SITE_ATTACHMENTS_FOLDER = 'attachments';
+
+/**
+ * Serialize site data for embedding in a script element (no "</script>" breakout)
+ */
+export function serializeSiteData(data: SiteData): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
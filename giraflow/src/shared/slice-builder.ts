@@ -14,6 +14,7 @@ import type {
   Event,
   Actor,
   Attachment,
+  SliceStatus,
   CommandScenario,
   StateViewScenario,
   TimelineScenario,
@@ -47,6 +48,7 @@ export interface Slice {
   type: 'state' | 'command';
   ticks: number[];
   example?: unknown;
+  status?: SliceStatus;
   attachments: Attachment[];
 
   // For states: events this state is sourced from
@@ -121,6 +123,11 @@ export function buildSliceViewModel(model: GiraflowModel): SliceViewModel {
       slice.example = el.example;
     }
 
+    // Capture status if not yet set
+    if (slice.status === undefined && el.status !== undefined) {
+      slice.status = el.status;
+    }
+
     if (isState(el)) {
       for (const s of el.sourcedFrom) {
         sliceSourceNames.get(key)!.add(s);
@@ -191,25 +198,30 @@ export function buildSliceViewModel(model: GiraflowModel): SliceViewModel {
         const occ = slice.stateOccurrences[index];
         const prevTick = index > 0 ? slice.stateOccurrences[index - 1].tick : 0;
 
-        const precedingEvent = events.find(
-          (e) =>
-            e.tick > prevTick &&
-            e.tick < occ.tick &&
-            occ.state.sourcedFrom.includes(e.name)
-        );
+        const precedingEvents = events
+          .filter(
+            (e) =>
+              e.tick > prevTick &&
+              e.tick < occ.tick &&
+              occ.state.sourcedFrom.includes(e.name)
+          )
+          .sort((a, b) => a.tick - b.tick);
 
-        if (!precedingEvent && index === 0) {
+        if (precedingEvents.length === 0 && index === 0) {
           // First occurrence without preceding event -> set as initialState
           initialState = occ.state.example;
-        } else if (precedingEvent) {
+        }
+
+        // Only the state after the last event is on the timeline
+        precedingEvents.forEach((precedingEvent, i) => {
           steps.push({
             given: {
               event: precedingEvent.name,
               ...(precedingEvent.example ? { data: precedingEvent.example } : {}),
             },
-            then: occ.state.example,
+            then: i === precedingEvents.length - 1 ? occ.state.example : undefined,
           });
-        }
+        });
       }
 
       const scenario: StateViewScenario = {
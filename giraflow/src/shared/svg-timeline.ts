@@ -0,0 +1,252 @@
+/**
+ * SVG Timeline
+ *
+ * Renders the horizontal timeline (TimelineHorizontalView.svelte) as a
+ * standalone SVG: actor lanes on top, commands and states in the middle,
+ * event lanes at the bottom, one column per tick and arrows for
+ * sendsCommand, producedBy, sourcedFrom and readsView.
+ *
+ * Used by `giraflow export svg`, the /api/export/svg endpoint and the report
+ * view (one SVG per page of tick columns).
+ */
+
+import type { GiraflowModel, TimelineElement } from './types.js';
+import { getReadViews } from './types.js';
+import {
+  buildTimelineViewModel,
+  buildTimelineLinks,
+  type TimelineItem,
+  type TimelineLink,
+  type TimelineViewModel,
+} from './timeline-builder.js';
+
+// Layout, in pixels (the horizontal view at 100% zoom with compact boxes)
+const LABEL_WIDTH = 28;
+const LANES_TOP = 24;
+const TICK_WIDTH = 200;
+const LANE_HEIGHT = 140;
+const BOX_WIDTH = 180;
+const BOX_HEIGHT = 100;
+const LEGEND_HEIGHT = 32;
+const LINE_HEIGHT = 14;
+const MAX_FIELDS = 4;
+const MAX_VALUE_LENGTH = 15;
+const MAX_NAME_LENGTH = 20;
+
+const FONT = "'JetBrains Mono', 'Fira Code', Consolas, monospace";
+
+/** Colors of the web UI (global.css) */
+const COLORS = {
+  event: '#ff9e64',
+  state: '#9ece6a',
+  command: '#7aa2f7',
+  actor: '#6b7280',
+  textPrimary: '#1a1d26',
+  textSecondary: '#6b7280',
+  border: '#e2e5ea',
+  background: '#f8f9fb',
+};
+
+const LANE_FILLS = {
+  right: 'rgba(107, 114, 128, 0.05)',
+  center: 'rgba(107, 114, 128, 0.1)',
+  left: 'rgba(249, 115, 22, 0.05)',
+};
+
+const SYMBOLS: Record<TimelineElement['type'], string> = {
+  event: '●',
+  state: '◆',
+  command: '▶',
+  actor: '○',
+};
+
+/** Arrow color per relation: the color of the element the arrow starts at */
+const RELATION_COLORS: Record<TimelineLink['relation'], string> = {
+  sendsCommand: COLORS.actor,
+  producedBy: COLORS.command,
+  sourcedFrom: COLORS.event,
+  readsView: COLORS.state,
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length) + '…' : text;
+}
+
+/**
+ * Darken a #rrggbb color (the UI borders mix 20% black into the fill)
+ */
+function darken(hex: string, amount = 0.2): string {
+  const channels = [1, 3, 5].map((i) => Math.round(parseInt(hex.slice(i, i + 2), 16) * (1 - amount)));
+  return '#' + channels.map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `[${value.length}]`;
+  if (typeof value === 'object') return '{...}';
+  if (typeof value === 'string') return truncate(value, MAX_VALUE_LENGTH);
+  return String(value);
+}
+
+/**
+ * Text lines below the element name: example fields, or what an actor reads and triggers
+ */
+function detailLines(element: TimelineElement): string[] {
+  if (element.type === 'actor') {
+    return [`reads: ${getReadViews(element).join(', ') || '?'}`, `→ ${element.sendsCommand || '?'}`];
+  }
+  const example = element.example;
+  if (!example || typeof example !== 'object') return [];
+  const fields = Object.entries(example).map(([key, value]) => `${key}: ${formatValue(value)}`);
+  if (fields.length <= MAX_FIELDS) return fields;
+  return [...fields.slice(0, MAX_FIELDS - 1), `+${fields.length - MAX_FIELDS + 1} more...`];
+}
+
+interface Box {
+  x: number;
+  y: number;
+}
+
+/**
+ * Render the columns of the given ticks; links to elements outside of them are left out
+ */
+function renderSvg(title: string, viewModel: TimelineViewModel, ticks: number[]): string {
+  const { laneConfig } = viewModel;
+  const items = viewModel.items.filter((item) => ticks.includes(item.element.tick));
+  const actorLanes = laneConfig.actorRoles.length;
+  const laneCount = actorLanes + 1 + laneConfig.eventSystems.length;
+
+  const width = LABEL_WIDTH + Math.max(ticks.length, 1) * TICK_WIDTH;
+  const lanesBottom = LANES_TOP + laneCount * LANE_HEIGHT;
+  const height = lanesBottom + LEGEND_HEIGHT;
+
+  // Order: Actors (top) → Commands/States (middle) → Events (bottom)
+  const laneRow = (item: TimelineItem) =>
+    item.position === 'right' ? item.laneIndex
+      : item.position === 'center' ? actorLanes
+        : actorLanes + 1 + item.laneIndex;
+
+  const boxes = new Map<TimelineItem, Box>();
+  for (const item of items) {
+    boxes.set(item, {
+      x: LABEL_WIDTH + ticks.indexOf(item.element.tick) * TICK_WIDTH + (TICK_WIDTH - BOX_WIDTH) / 2,
+      y: LANES_TOP + laneRow(item) * LANE_HEIGHT + (LANE_HEIGHT - BOX_HEIGHT) / 2,
+    });
+  }
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT)}" font-size="12">`,
+    `<title>${escapeXml(title)}</title>`,
+    '<defs>',
+    ...Object.entries(RELATION_COLORS).map(([relation, color]) =>
+      `<marker id="arrow-${relation}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`
+    ),
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="${COLORS.background}"/>`,
+  ];
+
+  // Lanes with their labels
+  const lanes = [
+    ...laneConfig.actorRoles.map((role) => ({ label: role || 'Actors', position: 'right' as const, color: COLORS.actor })),
+    { label: 'Cmd / State', position: 'center' as const, color: COLORS.textSecondary },
+    ...laneConfig.eventSystems.map((system) => ({ label: system || 'Events', position: 'left' as const, color: COLORS.event })),
+  ];
+  lanes.forEach((lane, row) => {
+    const y = LANES_TOP + row * LANE_HEIGHT;
+    const center = y + LANE_HEIGHT / 2;
+    out.push(
+      `<rect x="0" y="${y}" width="${width}" height="${LANE_HEIGHT}" fill="${LANE_FILLS[lane.position]}" stroke="${COLORS.border}"/>`,
+      `<text x="${LABEL_WIDTH / 2}" y="${center}" transform="rotate(-90 ${LABEL_WIDTH / 2} ${center})" text-anchor="middle" dominant-baseline="middle" font-size="9" font-weight="600" fill="${lane.color}">${escapeXml(lane.label.toUpperCase())}</text>`
+    );
+  });
+  out.push(`<line x1="${LABEL_WIDTH}" y1="${LANES_TOP}" x2="${LABEL_WIDTH}" y2="${lanesBottom}" stroke="${COLORS.border}"/>`);
+
+  // Tick columns
+  ticks.forEach((tick, i) => {
+    const x = LABEL_WIDTH + i * TICK_WIDTH;
+    out.push(
+      `<line x1="${x + TICK_WIDTH}" y1="0" x2="${x + TICK_WIDTH}" y2="${lanesBottom}" stroke="${COLORS.border}" stroke-dasharray="4 3"/>`,
+      `<text x="${x + TICK_WIDTH / 2}" y="16" text-anchor="middle" font-size="10" fill="${COLORS.textSecondary}">@${tick}</text>`
+    );
+  });
+
+  // Arrows below the boxes, from the edge facing the target
+  for (const link of buildTimelineLinks(viewModel.items)) {
+    const from = boxes.get(link.from);
+    const to = boxes.get(link.to);
+    if (!from || !to) continue;
+    const down = to.y > from.y;
+    const x1 = from.x + BOX_WIDTH / 2;
+    const x2 = to.x + BOX_WIDTH / 2;
+    const y1 = down ? from.y + BOX_HEIGHT : from.y;
+    const y2 = down ? to.y : to.y + BOX_HEIGHT;
+    const bend = (y2 - y1) / 2 || LANE_HEIGHT / 2;
+    out.push(
+      `<path d="M${x1},${y1} C${x1},${y1 + bend} ${x2},${y2 - bend} ${x2},${y2}" fill="none" stroke="${RELATION_COLORS[link.relation]}" stroke-width="1.5" opacity="0.8" marker-end="url(#arrow-${link.relation})"/>`
+    );
+  }
+
+  // Element boxes
+  for (const item of items) {
+    const { x, y } = boxes.get(item)!;
+    const element = item.element;
+    const fill = COLORS[element.type];
+    const text = element.type === 'actor' ? '#ffffff' : COLORS.textPrimary;
+    out.push(
+      `<g>`,
+      `<title>${escapeXml(`${element.name} @${element.tick}`)}</title>`,
+      `<rect x="${x}" y="${y}" width="${BOX_WIDTH}" height="${BOX_HEIGHT}" rx="6" fill="${fill}" stroke="${darken(fill)}"/>`,
+      `<text x="${x + 8}" y="${y + 18}" font-weight="600" fill="${text}">${escapeXml(`${SYMBOLS[element.type]} ${truncate(element.name, MAX_NAME_LENGTH)}`)}</text>`,
+      `<line x1="${x + 8}" y1="${y + 26}" x2="${x + BOX_WIDTH - 8}" y2="${y + 26}" stroke="rgba(0, 0, 0, 0.1)"/>`,
+      ...detailLines(element).map((line, i) =>
+        `<text x="${x + 8}" y="${y + 42 + i * LINE_HEIGHT}" font-size="10" fill="${text}">${escapeXml(truncate(line, 26))}</text>`
+      ),
+      `</g>`
+    );
+  }
+
+  // Legend for the arrow colors
+  const legendY = lanesBottom + LEGEND_HEIGHT / 2;
+  Object.entries(RELATION_COLORS).forEach(([relation, color], i) => {
+    const x = LABEL_WIDTH + 8 + i * 130;
+    out.push(
+      `<line x1="${x}" y1="${legendY}" x2="${x + 24}" y2="${legendY}" stroke="${color}" stroke-width="1.5" marker-end="url(#arrow-${relation})"/>`,
+      `<text x="${x + 30}" y="${legendY}" dominant-baseline="middle" font-size="10" fill="${COLORS.textSecondary}">${relation}</text>`
+    );
+  });
+
+  out.push('</svg>');
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Render the timeline of a model as a standalone SVG document
+ */
+export function renderTimelineSvg(model: GiraflowModel): string {
+  const viewModel = buildTimelineViewModel(model);
+  return renderSvg(model.name, viewModel, [...new Set(viewModel.items.map((item) => item.element.tick))]);
+}
+
+/**
+ * Render the timeline as one SVG per page of tick columns, for print layouts.
+ * Every page shows all lanes; arrows between pages are left out.
+ */
+export function renderTimelineSvgPages(model: GiraflowModel, ticksPerPage: number): string[] {
+  const viewModel = buildTimelineViewModel(model);
+  const ticks = [...new Set(viewModel.items.map((item) => item.element.tick))];
+  const pages: string[] = [];
+  for (let i = 0; i < ticks.length; i += ticksPerPage) {
+    const pageTicks = ticks.slice(i, i + ticksPerPage);
+    const range = `@${pageTicks[0]}–@${pageTicks[pageTicks.length - 1]}`;
+    pages.push(renderSvg(`${model.name} (${range})`, viewModel, pageTicks));
+  }
+  return pages;
+}
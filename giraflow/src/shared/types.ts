@@ -61,6 +61,12 @@ export interface Attachment {
   content?: string;
 }
 
+/**
+ * Implementation status of a slice: a simple string (e.g. 'implemented',
+ * 'planned') or a free-form status object.
+ */
+export type SliceStatus = string | Record<string, unknown>;
+
 export interface Event {
   type: 'event';
   name: string;
@@ -77,13 +83,14 @@ export interface StateView {
   sourcedFrom: string[];
   example?: unknown;
   attachments?: Attachment[];
+  status?: SliceStatus;
 }
 
 export interface Actor {
   type: 'actor';
   name: string;
   tick: number;
-  readsView: string;
+  readsView: string | string[];
   sendsCommand: string;
   wireframes?: string[];
   role?: string;
@@ -95,6 +102,7 @@ export interface Command {
   tick: number;
   example?: unknown;
   attachments?: Attachment[];
+  status?: SliceStatus;
 }
 
 export type TimelineElement = Event | StateView | Actor | Command;
@@ -122,7 +130,7 @@ export interface GiraflowModel {
   specifications?: Specification[];
 }
 
-export type ViewMode = 'slice' | 'timeline' | 'table' | 'editor' | 'howto';
+export type ViewMode = 'slice' | 'timeline' | 'table' | 'report' | 'editor' | 'howto';
 
 // Type guards
 export function isEvent(el: TimelineElement): el is Event {
@@ -145,6 +153,22 @@ export function isActor(el: TimelineElement): el is Actor {
   return el.type === 'actor';
 }
 
+/**
+ * Names of the state views an actor reads (readsView may be a single name or a list)
+ */
+export function getReadViews(actor: Actor): string[] {
+  if (!actor.readsView) return [];
+  return Array.isArray(actor.readsView) ? actor.readsView : [actor.readsView];
+}
+
+/**
+ * Short label for a slice status (string as-is, objects by their "status" field)
+ */
+export function formatStatus(status: SliceStatus): string {
+  if (typeof status === 'string') return status;
+  return typeof status.status === 'string' ? status.status : JSON.stringify(status);
+}
+
 /**
  * CLI options
  */
@@ -4,19 +4,28 @@ import { ifLivePlugin } from './src/vite-plugin-if-live.ts';
 
 export default defineConfig(({ mode }) => {
   const isPublic = mode === 'public';
+  // Viewer template for `giraflow build-site`: relative URLs and a single JS
+  // chunk, so build-site can inline it and the site works from file://
+  const isStatic = mode === 'static';
 
   return {
     plugins: [svelte(), ifLivePlugin()],
     root: '.',
     publicDir: 'public',
+    base: isStatic ? './' : '/',
     build: {
-      outDir: 'dist/client',
+      outDir: isStatic ? 'dist/site' : 'dist/client',
       emptyOutDir: true,
       rollupOptions: isPublic
         ? {
             input: 'index-public.html',
           }
-        : undefined,
+        : isStatic
+          ? {
+              input: 'index-static.html',
+              output: { inlineDynamicImports: true },
+            }
+          : undefined,
     },
     // Use different entry point for public mode
     ...(isPublic && {